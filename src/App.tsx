@@ -1,21 +1,33 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import {
-  ReactFlowProvider,
-  addEdge,
-  useEdgesState,
-  useNodesState,
-  type Connection,
-  type Edge,
-  type Node,
-} from "reactflow";
-import Editor from "@monaco-editor/react";
+import { ReactFlowProvider, type Connection } from "reactflow";
+import Editor, { type BeforeMount, type Monaco, type OnMount } from "@monaco-editor/react";
 
+import { DarTransView } from "./components/DarTransView";
 import { DarTwinFrame } from "./components/DarTwinFrame";
 import { DiagramCanvas } from "./components/DiagramCanvas";
-import { parseDarTwin } from "./parser/parseDarTwin";
-import { darTwinToReactFlow } from "./adapters/darTwinToReactFlow";
-import { computeLayout } from "./layout/computeLayout";
+import { DiagramExportControls } from "./components/DiagramExportControls";
+import { EvaluationControls, NO_EVALUATION } from "./components/EvaluationControls";
+import { JsonImportPanel } from "./components/JsonImportPanel";
+import { ProblemsPanel } from "./components/ProblemsPanel";
+import { WorkspaceSidebar } from "./components/WorkspaceSidebar";
+import {
+  DARTWIN_LANGUAGE_ID,
+  DARTWIN_THEME_ID,
+  registerDarTwinLanguage,
+} from "./editor/dartwinLanguage";
+import { MARKER_OWNER, toMarkers } from "./editor/markers";
+import { applyInsertion, insertionForDiagramConnection } from "./editor/textEdits";
+import { parseDarTwinDocument } from "./parser/parseDarTwin";
+import { toInterchangeJson } from "./schema/interchange";
+import { annotateEvaluation, darTwinToReactFlow } from "./adapters/darTwinToReactFlow";
+import { evaluateGoals } from "./evaluation/evaluateGoals";
+import { computeLayout, type LayoutPreset } from "./layout/computeLayout";
+import { useLayout } from "./layout/useLayout";
+import type { Diagnostic } from "./types/diagnostics";
+import { issuesToDiagnostics, validateDarTwin } from "./validation/validateDarTwin";
 import { formatLabel } from "./utils/format";
+import { emptyDocumentText } from "./workspace/documents";
+import { useWorkspace } from "./workspace/useWorkspace";
 
 import "./App.css";
 import "reactflow/dist/style.css";
@@ -28,89 +40,194 @@ const sample = `#dartwin StrawberryCultivationTrans {
     connect StrawberryDT.actuator_output_ventilation  to Strawberry.Cultivation.VentilationActuator;
 
     #digitaltwin StrawberryDT {
-      port multisensor_input;
-      port actuator_output_irrigation;
-      port actuator_output_human;
-      port actuator_output_ventilation;
+      in port multisensor_input : sensor;
+      out port actuator_output_irrigation : actuator;
+      out port actuator_output_human : human;
+      out port actuator_output_ventilation : actuator;
     }
 
     part Cultivation {
-      port MultiSensor;
-      port IrrigationActuator;
-      port HumanActuator;
-      port VentilationActuator;
+      out port MultiSensor : sensor;
+      in port IrrigationActuator : actuator;
+      in port HumanActuator : human;
+      in port VentilationActuator : actuator;
     }
   }
 
-  #goal increase_yield { doc /* yield y higher y than before */ }
-  #goal apply_decreased_water { doc /* water consumption w lower w than before */ }
+  #goal increase_yield {
+    doc /* yield y higher y than before */
+    metric yield : kg/m2 > before;
+  }
+  #goal apply_decreased_water {
+    doc /* water consumption w lower w than before */
+    metric water_consumption : l/day < before;
+  }
 
   allocate increase_yield to Strawberry.StrawberryDT;
   allocate apply_decreased_water to Strawberry.StrawberryDT;
 }`;
 
-function useLayout(initialNodes: Node[], initialEdges: Edge[]) {
-  const [stateNodes, setNodes, onNodesChange] = useNodesState(initialNodes);
-  const [stateEdges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+const VIEW_MODES = ["diagram", "dartrans", "json"] as const;
+
+type ViewMode = (typeof VIEW_MODES)[number];
 
-  const layoutSignature = useMemo(
-    () => initialNodes.map((node) => node.id).join("|"),
-    [initialNodes]
+const isViewMode = (mode: string | undefined): mode is ViewMode =>
+  (VIEW_MODES as readonly (string | undefined)[]).includes(mode);
+
+interface InnerAppProps {
+  documentId: string;
+  text: string;
+  setText: (text: string) => void;
+  viewMode: ViewMode;
+  setViewMode: (mode: ViewMode) => void;
+}
+
+/** Keyed by document, so measurements, layout and drag positions belong to one document. */
+function InnerApp({ documentId, text, setText, viewMode, setViewMode }: InnerAppProps) {
+  const parseResult = useMemo(() => parseDarTwinDocument(text), [text]);
+  const { model, sourceMap } = parseResult;
+  const problems = useMemo(
+    () => [
+      ...parseResult.diagnostics,
+      ...issuesToDiagnostics(validateDarTwin(model), sourceMap),
+    ],
+    [parseResult, model, sourceMap]
   );
+  const dartwinTitle = useMemo(() => formatLabel(model.name ?? ""), [model.name]);
+  const [evaluation, setEvaluation] = useState(NO_EVALUATION);
+  const { measurements } = evaluation;
+  const graph = useMemo(() => {
+    const modelGraph = darTwinToReactFlow(model);
+    return measurements
+      ? annotateEvaluation(modelGraph, evaluateGoals(model, measurements))
+      : modelGraph;
+  }, [model, measurements]);
+  const [layoutPreset, setLayoutPreset] = useState<LayoutPreset>("layered");
+  const layout = useMemo(() => computeLayout(graph, layoutPreset), [graph, layoutPreset]);
+  const { nodes, edges, onNodesChange, onEdgesChange } = useLayout(
+    layout.nodes,
+    layout.edges,
+    layoutPreset
+  );
+  const jsonModel = useMemo(() => toInterchangeJson(model), [model]);
 
-  useEffect(() => {
-    setNodes([]);
-  }, [layoutSignature, setNodes]);
+  const [monaco, setMonaco] = useState<Monaco | null>(null);
+  const [editor, setEditor] = useState<Parameters<OnMount>[0] | null>(null);
 
-  useEffect(() => {
-    setNodes((prev) => (prev.length === 0 ? initialNodes : prev));
-  }, [initialNodes, setNodes]);
+  const onEditorBeforeMount = useCallback<BeforeMount>((beforeMonaco) => {
+    registerDarTwinLanguage(beforeMonaco);
+  }, []);
+
+  const onEditorMount = useCallback<OnMount>((mountedEditor, mountedMonaco) => {
+    setEditor(mountedEditor);
+    setMonaco(mountedMonaco);
+  }, []);
 
   useEffect(() => {
-    setEdges(initialEdges);
-  }, [initialEdges, setEdges]);
+    const textModel = editor?.getModel();
+    if (!monaco || !textModel) {
+      return;
+    }
+    monaco.editor.setModelMarkers(textModel, MARKER_OWNER, toMarkers(monaco, problems));
+  }, [monaco, editor, problems]);
 
-  return { nodes: stateNodes, edges: stateEdges, setEdges, onNodesChange, onEdgesChange };
-}
+  const revealProblem = useCallback(
+    (problem: Diagnostic) => {
+      if (!editor) {
+        return;
+      }
+      const { line, column } = problem.range.start;
+      editor.revealLineInCenter(line);
+      editor.setPosition({ lineNumber: line, column });
+      editor.focus();
+    },
+    [editor]
+  );
 
-type ViewMode = "diagram" | "json";
+  const insertionFor = useCallback(
+    (connection: Connection) =>
+      connection.source && connection.target
+        ? insertionForDiagramConnection(
+            text,
+            parseResult,
+            graph,
+            connection.source,
+            connection.target
+          )
+        : undefined,
+    [text, parseResult, graph]
+  );
 
-function InnerApp() {
-  const [text, setText] = useState(sample);
-  const model = useMemo(() => parseDarTwin(text), [text]);
-  const dartwinTitle = useMemo(() => formatLabel(model.name ?? ""), [model.name]);
-  const graph = useMemo(() => darTwinToReactFlow(model), [model]);
-  const layout = useMemo(() => computeLayout(graph), [graph]);
-  const { nodes, edges, setEdges, onNodesChange, onEdgesChange } = useLayout(
-    layout.nodes,
-    layout.edges
+  const isValidConnection = useCallback(
+    (connection: Connection) => insertionFor(connection) !== undefined,
+    [insertionFor]
   );
-  const [viewMode, setViewMode] = useState<ViewMode>("diagram");
-  const jsonModel = useMemo(() => JSON.stringify(model, null, 2), [model]);
 
+  // The text stays the single source of truth: a drawn edge becomes a DSL
+  // statement, and the diagram picks it up from the re-parse.
   const onConnect = useCallback(
-    (connection: Connection) => setEdges((eds) => addEdge(connection, eds)),
-    [setEdges]
+    (connection: Connection) => {
+      const insertion = insertionFor(connection);
+      if (insertion) {
+        setText(applyInsertion(text, insertion));
+      }
+    },
+    [insertionFor, text, setText]
+  );
+
+  const importText = useCallback(
+    (imported: string) => {
+      setText(imported);
+      setViewMode("diagram");
+    },
+    [setText, setViewMode]
   );
 
   return (
-    <div className="app-container">
+    <>
       <div className="panel">
         <h2>DarTwin Text</h2>
         <div className="panel-content">
           <Editor
-            height="75vh"
-            defaultLanguage="plaintext"
+            height="55vh"
+            path={documentId}
+            defaultLanguage={DARTWIN_LANGUAGE_ID}
+            theme={DARTWIN_THEME_ID}
             value={text}
             onChange={(value) => setText(value || "")}
+            beforeMount={onEditorBeforeMount}
+            onMount={onEditorMount}
             options={{ minimap: { enabled: false } }}
           />
+          <ProblemsPanel problems={problems} onSelect={revealProblem} />
         </div>
       </div>
 
       <div className="panel">
         <div className="panel-header">
           <h2>Diagram</h2>
+          {viewMode === "diagram" ? (
+            <>
+              <select
+                className="layout-preset"
+                value={layoutPreset}
+                onChange={(event) => setLayoutPreset(event.target.value as LayoutPreset)}
+                aria-label="Layout"
+              >
+                <option value="layered">Layered layout</option>
+                <option value="paper">Paper layout</option>
+              </select>
+              <EvaluationControls evaluation={evaluation} onChange={setEvaluation} />
+              <DiagramExportControls
+                model={model}
+                graph={graph}
+                nodes={nodes}
+                edges={edges}
+                title={dartwinTitle}
+                fileName={model.name || "dartwin"}
+              />
+            </>
+          ) : null}
           <div className="view-toggle" role="group" aria-label="Diagram view mode">
             <button
               type="button"
@@ -120,6 +237,14 @@ function InnerApp() {
             >
               Diagram
             </button>
+            <button
+              type="button"
+              className={`toggle-button${viewMode === "dartrans" ? " active" : ""}`}
+              onClick={() => setViewMode("dartrans")}
+              aria-pressed={viewMode === "dartrans"}
+            >
+              DarTrans
+            </button>
             <button
               type="button"
               className={`toggle-button${viewMode === "json" ? " active" : ""}`}
@@ -139,21 +264,54 @@ function InnerApp() {
                 onNodesChange={onNodesChange}
                 onEdgesChange={onEdgesChange}
                 onConnect={onConnect}
+                isValidConnection={isValidConnection}
               />
             </DarTwinFrame>
+          ) : viewMode === "dartrans" ? (
+            <DarTransView model={model} />
           ) : (
-            <pre className="json-view">{jsonModel}</pre>
+            <div className="json-pane">
+              <JsonImportPanel onImport={importText} />
+              <pre className="json-view">{jsonModel}</pre>
+            </div>
           )}
         </div>
       </div>
-    </div>
+    </>
   );
 }
 
 export default function App() {
+  const workspace = useWorkspace({ name: "Strawberry cultivation", text: sample });
+  const { activeDocument, setViewMode } = workspace;
+  const viewMode = isViewMode(workspace.viewMode) ? workspace.viewMode : "diagram";
+
   return (
     <ReactFlowProvider>
-      <InnerApp />
+      <div className="app-container">
+        <WorkspaceSidebar
+          documents={workspace.documents}
+          activeId={activeDocument?.id}
+          storageError={workspace.storageError}
+          onSelect={workspace.select}
+          onCreate={() => workspace.create(emptyDocumentText())}
+          onRename={workspace.rename}
+          onDuplicate={workspace.duplicate}
+          onDelete={workspace.remove}
+        />
+        {activeDocument ? (
+          <InnerApp
+            key={activeDocument.id}
+            documentId={activeDocument.id}
+            text={activeDocument.text}
+            setText={workspace.setText}
+            viewMode={viewMode}
+            setViewMode={setViewMode}
+          />
+        ) : (
+          <p className="workspace-loading">Opening workspace…</p>
+        )}
+      </div>
     </ReactFlowProvider>
   );
 }
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { darTransToReactFlow } from "../darTransToReactFlow";
+
+const transformation = `#dartwin Greenhouse {
+  #dartrans {
+    #core {
+      #twinsystem Strawberry {
+        #digitaltwin StrawberryDT { port input; }
+        part Cultivation { port MultiSensor; }
+        connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input;
+      }
+    }
+    #before {
+      #twinsystem Strawberry { part Cultivation { port HumanActuator; } }
+    }
+    #after {
+      #twinsystem Strawberry {
+        #digitaltwin StrawberryDT { port output; }
+        part Cultivation { port IrrigationActuator; }
+        connect StrawberryDT.output to Strawberry.Cultivation.IrrigationActuator;
+      }
+    }
+  }
+}`;
+
+describe("darTransToReactFlow", () => {
+  it("flags core nodes and edges on each side", () => {
+    const after = darTransToReactFlow(parseDarTwin(transformation), "after");
+    const coreNodes = after?.nodes.filter((node) => node.core).map((node) => node.label);
+    expect(coreNodes).toEqual([
+      "Strawberry",
+      "StrawberryDT",
+      "input",
+      "Cultivation",
+      "MultiSensor",
+    ]);
+    expect(after?.nodes.find((node) => node.label === "output")?.core).toBeUndefined();
+    expect(after?.edges.map((edge) => [edge.target.split("::").pop(), edge.core])).toEqual([
+      ["input", true],
+      ["IrrigationActuator", undefined],
+    ]);
+
+    const before = darTransToReactFlow(parseDarTwin(transformation), "before");
+    expect(before?.nodes.map((node) => node.label)).toContain("HumanActuator");
+    expect(before?.nodes.map((node) => node.label)).not.toContain("output");
+  });
+
+  it("returns nothing without a #dartrans block", () => {
+    expect(darTransToReactFlow(parseDarTwin("#dartwin Plain { }"), "before")).toBeUndefined();
+  });
+});
@@ -84,4 +84,158 @@ describe("darTwinToReactFlow", () => {
     expect(graph.edges.filter((edge) => edge.label === "allocate")).toHaveLength(2);
     expect(graph.edges.filter((edge) => edge.label !== "allocate")).toHaveLength(4);
   });
+
+  it("derives the flow of connections from their port directions", () => {
+    const graph = darTwinToReactFlow(
+      parseDarTwin(`#dartwin Flow {
+  #twinsystem Alpha {
+    #digitaltwin DT { in port reading; out port command; inout port console; }
+    part Machine { out port sensor; in port valve; port panel; }
+    connect Alpha.Machine.sensor to DT.reading;
+    connect DT.reading to Alpha.Machine.sensor;
+    connect Alpha.Machine.panel to DT.console;
+    connect Alpha.Machine.valve to DT.command;
+  }
+}`)
+    );
+    expect(graph.edges.map((edge) => edge.flow)).toEqual([
+      undefined,
+      "backward",
+      "both",
+      "backward",
+    ]);
+    expect(graph.nodes.find((node) => node.ref === "Alpha.DT.console")).toMatchObject({
+      direction: "inout",
+    });
+  });
+
+  it("nests parts and resolves connections to their ports by path", () => {
+    const graph = darTwinToReactFlow(
+      parseDarTwin(`#dartwin Nested {
+  #twinsystem Farm {
+    #digitaltwin DT { in port moisture; }
+    part Greenhouse { part Bed { part SoilProbe { out port reading; } } }
+    connect Greenhouse.Bed.SoilProbe.reading to DT.moisture;
+    connect Farm.Greenhouse.Bed.SoilProbe.reading to Farm.DT.moisture;
+  }
+}`)
+    );
+    const parts = graph.nodes.filter((node) => node.type === "at");
+    expect(parts.map(({ id, parentId, ref }) => ({ id, parentId, ref }))).toEqual([
+      {
+        id: "at::Nested::Farm::Greenhouse",
+        parentId: "ts::Nested::Farm",
+        ref: "Farm.Greenhouse",
+      },
+      {
+        id: "at::Nested::Farm::Greenhouse::Bed",
+        parentId: "at::Nested::Farm::Greenhouse",
+        ref: "Farm.Greenhouse.Bed",
+      },
+      {
+        id: "at::Nested::Farm::Greenhouse::Bed::SoilProbe",
+        parentId: "at::Nested::Farm::Greenhouse::Bed",
+        ref: "Farm.Greenhouse.Bed.SoilProbe",
+      },
+    ]);
+    expect(graph.edges.map(({ source, target }) => [source, target])).toEqual([
+      [
+        "port::Nested::Farm::Greenhouse::Bed::SoilProbe::reading",
+        "port::Nested::Farm::DT::moisture",
+      ],
+      [
+        "port::Nested::Farm::Greenhouse::Bed::SoilProbe::reading",
+        "port::Nested::Farm::DT::moisture",
+      ],
+    ]);
+  });
+
+  it("draws connections between twin systems as edges between their ports", () => {
+    const graph = darTwinToReactFlow(
+      parseDarTwin(`#dartwin Farm {
+  #twinsystem Scheduler { #digitaltwin PlanDT { out port plan; } }
+  #twinsystem North { #digitaltwin ClimateDT { in port schedule; } }
+  #twinsystem South { #digitaltwin ClimateDT { in port schedule; } }
+  connect Scheduler.PlanDT.plan to North.ClimateDT.schedule;
+  connect Scheduler.PlanDT.plan to South.ClimateDT.schedule;
+}`)
+    );
+    expect(graph.edges).toEqual([
+      {
+        id: "connect::0",
+        source: "port::Farm::Scheduler::PlanDT::plan",
+        target: "port::Farm::North::ClimateDT::schedule",
+      },
+      {
+        id: "connect::1",
+        source: "port::Farm::Scheduler::PlanDT::plan",
+        target: "port::Farm::South::ClimateDT::schedule",
+      },
+    ]);
+  });
+
+  it("draws a repeated allocation once", () => {
+    const { edges } = darTwinToReactFlow(
+      parseDarTwin(`#dartwin Farm {
+  #twinsystem Strawberry { #digitaltwin StrawberryDT { } }
+  #goal g;
+  allocate g to Strawberry.StrawberryDT;
+  allocate g to Strawberry.StrawberryDT;
+  allocate g to StrawberryDT;
+}`)
+    );
+    expect(edges.map((edge) => edge.id)).toEqual(["allocation::Strawberry.StrawberryDT::g"]);
+  });
+
+  it("draws allocations to twin systems, parts and ports from those nodes", () => {
+    const graph = darTwinToReactFlow(
+      parseDarTwin(`#dartwin Farm {
+  #twinsystem Strawberry {
+    #digitaltwin StrawberryDT { }
+    part Cultivation { part Bed { port moisture; } }
+  }
+  #goal increase_yield;
+  #goal reduce_loss;
+  #goal save_water;
+  allocate increase_yield to Strawberry;
+  allocate reduce_loss to Strawberry.Cultivation;
+  allocate save_water to Strawberry.Cultivation.Bed.moisture;
+}`)
+    );
+    expect(graph.edges.map((edge) => [edge.source, edge.target])).toEqual([
+      ["ts::Farm::Strawberry", "goal::Farm::increase_yield"],
+      ["at::Farm::Strawberry::Cultivation", "goal::Farm::reduce_loss"],
+      ["port::Farm::Strawberry::Cultivation::Bed::moisture", "goal::Farm::save_water"],
+    ]);
+  });
+
+  it("joins goals by refinement and conflict edges", () => {
+    const graph = darTwinToReactFlow(
+      parseDarTwin(`#dartwin Farm {
+  #goal increase_yield;
+  #goal optimize_irrigation refines increase_yield conflicts with save_energy;
+  #goal save_energy refines increase_yield conflicts with optimize_irrigation;
+}`)
+    );
+    expect(graph.edges).toEqual([
+      {
+        id: "refine::optimize_irrigation::increase_yield",
+        source: "goal::Farm::optimize_irrigation",
+        target: "goal::Farm::increase_yield",
+        label: "refines",
+      },
+      {
+        id: "conflict::optimize_irrigation::save_energy",
+        source: "goal::Farm::optimize_irrigation",
+        target: "goal::Farm::save_energy",
+        label: "conflicts",
+      },
+      {
+        id: "refine::save_energy::increase_yield",
+        source: "goal::Farm::save_energy",
+        target: "goal::Farm::increase_yield",
+        label: "refines",
+      },
+    ]);
+  });
 });
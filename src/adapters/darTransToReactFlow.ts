@@ -0,0 +1,77 @@
+import { diffStatusLookup, type DarTwinDiff, type DiffElementKind } from "../dartrans/diffDarTwin";
+import { darTransConfiguration, sliceToModel, type DarTransSide } from "../dartrans/sliceModels";
+import type { DarTwinModel } from "../types/dartwin";
+import type { DarTwinEdge, DarTwinGraph, DarTwinNode } from "../types/reactflow";
+import { darTwinToReactFlow } from "./darTwinToReactFlow";
+
+const DIFF_KINDS: Partial<Record<DarTwinNode["type"], DiffElementKind>> = {
+  twinsystem: "system",
+  dt: "digitalTwin",
+  at: "part",
+  port: "port",
+  goal: "goal",
+};
+
+/** Connection edge ids are index based, so edges are matched on their endpoints instead. */
+const edgeSignature = (edge: DarTwinEdge) => `${edge.source}->${edge.target}:${edge.label ?? ""}`;
+
+/**
+ * Builds the graph of one side of the model's DarTrans and flags every node and
+ * edge that also belongs to the `#core` slice.
+ */
+export function darTransToReactFlow(
+  model: DarTwinModel,
+  side: DarTransSide
+): DarTwinGraph | undefined {
+  const configuration = darTransConfiguration(model, side);
+  if (!configuration) {
+    return undefined;
+  }
+
+  const graph = darTwinToReactFlow(configuration);
+  const core = model.dartrans?.core;
+  if (!core) {
+    return graph;
+  }
+
+  const coreGraph = darTwinToReactFlow(sliceToModel(model.name, core));
+  const coreNodes = new Set(
+    coreGraph.nodes.filter((node) => node.type !== "dartwin").map((node) => node.id)
+  );
+  const coreEdges = new Set(coreGraph.edges.map(edgeSignature));
+
+  return {
+    nodes: graph.nodes.map((node) => (coreNodes.has(node.id) ? { ...node, core: true } : node)),
+    edges: graph.edges.map((edge) =>
+      coreEdges.has(edgeSignature(edge)) ? { ...edge, core: true } : edge
+    ),
+  };
+}
+
+/**
+ * Tags nodes and edges with their status in `diff`. Connection and allocation
+ * edges are keyed by the refs of their end nodes, mirroring the diff keys.
+ */
+export function annotateDiff(graph: DarTwinGraph, diff: DarTwinDiff): DarTwinGraph {
+  const statusOf = diffStatusLookup(diff);
+  const refs = new Map(graph.nodes.map((node) => [node.id, node.ref]));
+  const tag = <T extends { diff?: DarTwinNode["diff"] }>(
+    item: T,
+    kind?: DiffElementKind,
+    key?: string
+  ) => {
+    const status = kind ? statusOf(kind, key) : "unchanged";
+    return status === "unchanged" ? item : { ...item, diff: status };
+  };
+
+  return {
+    nodes: graph.nodes.map((node) => tag(node, DIFF_KINDS[node.type], node.ref)),
+    edges: graph.edges.map((edge) => {
+      const source = refs.get(edge.source);
+      const target = refs.get(edge.target);
+      return edge.label === "allocate"
+        ? tag(edge, "allocation", `${target}->${source}`)
+        : tag(edge, "connection", `${source}->${target}`);
+    }),
+  };
+}
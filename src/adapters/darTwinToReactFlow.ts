@@ -1,18 +1,23 @@
-import type { DarTwinModel } from "../types/dartwin";
-import type { DarTwinEdge, DarTwinGraph, DarTwinNode } from "../types/reactflow";
+import type { GoalEvaluation } from "../evaluation/evaluateGoals";
+import { createReferenceIndex, type PortReference } from "../model/references";
+import type { Connection, DarTwinModel, OriginalTwin, Port, PortDirection } from "../types/dartwin";
+import type { DarTwinEdge, DarTwinGraph, DarTwinNode, EdgeFlow } from "../types/reactflow";
 
 const toSegment = (value: string) => value.trim().replace(/\s+/g, "_");
 
+/** Each name of a dotted path such as `Greenhouse.Bed` becomes its own ID segment. */
+const toSegments = (path: string) => path.split(".").map(toSegment).join("::");
+
 const createIds = (model: DarTwinModel) => {
   const dartwinSegment = toSegment(model.name || "dartwin");
   const dartwinId = `dw::${dartwinSegment}`;
   const systemId = (system: string) => `ts::${dartwinSegment}::${toSegment(system)}`;
   const digitalId = (system: string, twin: string) =>
     `dt::${dartwinSegment}::${toSegment(system)}::${toSegment(twin)}`;
-  const originalId = (system: string, twin: string) =>
-    `at::${dartwinSegment}::${toSegment(system)}::${toSegment(twin)}`;
-  const portId = (system: string, twin: string, port: string) =>
-    `port::${dartwinSegment}::${toSegment(system)}::${toSegment(twin)}::${toSegment(port)}`;
+  const originalId = (system: string, partPath: string) =>
+    `at::${dartwinSegment}::${toSegment(system)}::${toSegments(partPath)}`;
+  const portId = (system: string, ownerPath: string, port: string) =>
+    `port::${dartwinSegment}::${toSegment(system)}::${toSegments(ownerPath)}::${toSegment(port)}`;
   const goalId = (goal: string) => `goal::${dartwinSegment}::${toSegment(goal)}`;
 
   return { dartwinId, systemId, digitalId, originalId, portId, goalId };
@@ -26,69 +31,68 @@ const addEdge = (collection: DarTwinEdge[], edge: DarTwinEdge) => {
   collection.push(edge);
 };
 
-const setPortAliases = (
-  map: Map<string, string>,
-  primary: string,
-  aliases: string[],
-  id: string
-) => {
-  map.set(primary, id);
-  aliases.forEach((alias) => {
-    map.set(alias, id);
-  });
-};
-
-const resolvePortId = (
-  map: Map<string, string>,
-  system: string,
-  reference: string
-): string | undefined => {
-  const trimmed = reference.trim();
-  if (map.has(trimmed)) {
-    return map.get(trimmed);
-  }
-  const withSystem = `${system}.${trimmed}`;
-  if (map.has(withSystem)) {
-    return map.get(withSystem);
-  }
-  const systemPrefix = `${system}.`;
-  if (trimmed.startsWith(systemPrefix)) {
-    const withoutSystem = trimmed.slice(systemPrefix.length);
-    if (map.has(withoutSystem)) {
-      return map.get(withoutSystem);
-    }
-  }
-  return undefined;
-};
-
-const resolveDigitalTwinId = (
-  map: Map<string, string>,
-  system: string,
-  target: string
-) => {
-  const trimmed = target.trim();
-  if (map.has(trimmed)) {
-    return map.get(trimmed);
+const portAttributes = (port: Port): Partial<DarTwinNode> => ({
+  ...(port.direction ? { direction: port.direction } : {}),
+  ...(port.kind ? { portKind: port.kind } : {}),
+});
+
+/**
+ * The flow of a connection follows the directions of its ports; undirected
+ * ports keep the written order, and `inout` on an otherwise undirected
+ * connection makes it flow both ways.
+ */
+const connectionFlow = (from?: PortDirection, to?: PortDirection): EdgeFlow => {
+  const forward = from === "out" || to === "in";
+  const backward = from === "in" || to === "out";
+  if (backward && !forward) {
+    return "backward";
   }
-  const systemPrefix = `${system}.`;
-  if (trimmed.startsWith(systemPrefix)) {
-    const withoutSystem = trimmed.slice(systemPrefix.length);
-    return map.get(withoutSystem);
+  if (!forward && !backward && (from === "inout" || to === "inout")) {
+    return "both";
   }
-  return undefined;
+  return "forward";
 };
 
+/**
+ * Converts a model into the diagram graph. Nested parts become nested nodes,
+ * and connection and allocation references are resolved with the model's
+ * reference index, so they accept the same dotted paths as validation. Goals
+ * may be allocated to any twin system, digital twin, part or port, and are
+ * joined to each other by refinement and conflict edges.
+ */
 export function darTwinToReactFlow(model: DarTwinModel): DarTwinGraph {
   const { dartwinId, systemId, digitalId, originalId, portId, goalId } = createIds(model);
+  const index = createReferenceIndex(model);
   const nodes: DarTwinNode[] = [];
   const edges: DarTwinEdge[] = [];
 
   addNode(nodes, { id: dartwinId, type: "dartwin", label: model.name || "" });
 
-  const portLookup = new Map<string, string>();
-  const digitalTwinLookup = new Map<string, string>();
   const goalLookup = new Map<string, string>();
 
+  const addConnection = (
+    connection: Connection,
+    id: string,
+    from: PortReference | undefined,
+    to: PortReference | undefined
+  ) => {
+    if (!from || !to) {
+      console.warn(
+        `[darTwinToReactFlow] Skipping connection "${connection.from} -> ${connection.to}" because one of the ports is unknown.`
+      );
+      return;
+    }
+
+    const flow = connectionFlow(from.direction, to.direction);
+    addEdge(edges, {
+      id,
+      source: portId(from.system, from.owner, from.port),
+      target: portId(to.system, to.owner, to.port),
+      label: connection.name,
+      ...(flow !== "forward" ? { flow } : {}),
+    });
+  };
+
   model.systems.forEach((system) => {
     const systemNodeId = systemId(system.name);
     addNode(nodes, {
@@ -96,81 +100,68 @@ export function darTwinToReactFlow(model: DarTwinModel): DarTwinGraph {
       type: "twinsystem",
       label: system.name,
       parentId: dartwinId,
+      ref: system.name,
     });
 
+    const addPorts = (ownerPath: string, ownerNodeId: string, ports: Port[]) => {
+      ports.forEach((port) => {
+        addNode(nodes, {
+          id: portId(system.name, ownerPath, port.name),
+          type: "port",
+          label: port.name,
+          parentId: ownerNodeId,
+          ref: `${system.name}.${ownerPath}.${port.name}`,
+          ...portAttributes(port),
+        });
+      });
+    };
+
     system.digital_twins.forEach((dt) => {
       const dtNodeId = digitalId(system.name, dt.name);
-      digitalTwinLookup.set(dt.name, dtNodeId);
-      digitalTwinLookup.set(`${system.name}.${dt.name}`, dtNodeId);
       addNode(nodes, {
         id: dtNodeId,
         type: "dt",
         label: dt.name,
         parentId: systemNodeId,
+        ref: `${system.name}.${dt.name}`,
       });
-
-      dt.ports.forEach((port) => {
-        const portNodeId = portId(system.name, dt.name, port);
-        addNode(nodes, {
-          id: portNodeId,
-          type: "port",
-          label: port,
-          parentId: dtNodeId,
-        });
-        setPortAliases(
-          portLookup,
-          `${dt.name}.${port}`,
-          [`${system.name}.${dt.name}.${port}`],
-          portNodeId
-        );
-      });
+      addPorts(dt.name, dtNodeId, dt.ports);
     });
 
-    system.original_twins.forEach((ot) => {
-      const otNodeId = originalId(system.name, ot.name);
+    const addPart = (part: OriginalTwin, path: string, parentId: string) => {
+      const partNodeId = originalId(system.name, path);
       addNode(nodes, {
-        id: otNodeId,
+        id: partNodeId,
         type: "at",
-        label: ot.name,
-        parentId: systemNodeId,
+        label: part.name,
+        parentId,
+        ref: `${system.name}.${path}`,
       });
-
-      ot.ports.forEach((port) => {
-        const portNodeId = portId(system.name, ot.name, port);
-        addNode(nodes, {
-          id: portNodeId,
-          type: "port",
-          label: port,
-          parentId: otNodeId,
-        });
-        setPortAliases(
-          portLookup,
-          `${ot.name}.${port}`,
-          [`${system.name}.${ot.name}.${port}`],
-          portNodeId
-        );
-      });
-    });
-
-    system.connections.forEach((connection, index) => {
-      const sourceId = resolvePortId(portLookup, system.name, connection.from);
-      const targetId = resolvePortId(portLookup, system.name, connection.to);
-      if (!sourceId || !targetId) {
-        console.warn(
-          `[darTwinToReactFlow] Skipping connection "${connection.from} -> ${connection.to}" because one of the ports is unknown.`
-        );
-        return;
-      }
-
-      addEdge(edges, {
-        id: `connect::${toSegment(system.name)}::${index}`,
-        source: sourceId,
-        target: targetId,
-        label: connection.name,
-      });
-    });
+      addPorts(path, partNodeId, part.ports);
+      (part.parts ?? []).forEach((nested) => addPart(nested, `${path}.${nested.name}`, partNodeId));
+    };
+    system.original_twins.forEach((part) => addPart(part, part.name, systemNodeId));
+
+    system.connections.forEach((connection, connectionIndex) =>
+      addConnection(
+        connection,
+        `connect::${toSegment(system.name)}::${connectionIndex}`,
+        index.resolvePort(system.name, connection.from),
+        index.resolvePort(system.name, connection.to)
+      )
+    );
   });
 
+  // Connections in the `#dartwin` body join ports of different twin systems.
+  (model.connections ?? []).forEach((connection, connectionIndex) =>
+    addConnection(
+      connection,
+      `connect::${connectionIndex}`,
+      index.resolveQualifiedPort(connection.from),
+      index.resolveQualifiedPort(connection.to)
+    )
+  );
+
   model.goals.forEach((goal) => {
     const goalNodeId = goalId(goal.name);
     goalLookup.set(goal.name, goalNodeId);
@@ -180,26 +171,83 @@ export function darTwinToReactFlow(model: DarTwinModel): DarTwinGraph {
       label: goal.name,
       parentId: dartwinId,
       doc: goal.doc,
+      criteria: goal.criteria,
+      ref: goal.name,
     });
   });
 
+  // Systems, digital twins, parts and ports all carry their qualified path as `ref`.
+  const elementLookup = new Map(
+    nodes.flatMap((node) => (node.ref && node.type !== "goal" ? [[node.ref, node.id]] : []))
+  );
+
+  // `DT` and `System.DT` are one target, and a repeated allocation is drawn once.
+  const allocationIds = new Set<string>();
   model.allocations.forEach((allocation) => {
     const goalNodeId = goalLookup.get(allocation.goal);
-    const targetId = resolveDigitalTwinId(digitalTwinLookup, allocation.target.split(".")[0] ?? "", allocation.target);
-    if (!goalNodeId || !targetId) {
+    const target = index.resolveElement(allocation.target);
+    const targetNodeId = target && elementLookup.get(target.path);
+    if (!goalNodeId || !targetNodeId) {
       console.warn(
         `[darTwinToReactFlow] Skipping allocation "${allocation.goal} -> ${allocation.target}" because referenced nodes are missing.`
       );
       return;
     }
 
-    addEdge(edges, {
-      id: `allocation::${toSegment(allocation.target)}::${toSegment(allocation.goal)}`,
-      source: targetId,
-      target: goalNodeId,
-      label: "allocate",
+    const id = `allocation::${toSegment(target.path)}::${toSegment(allocation.goal)}`;
+    if (allocationIds.has(id)) {
+      return;
+    }
+    allocationIds.add(id);
+    addEdge(edges, { id, source: targetNodeId, target: goalNodeId, label: "allocate" });
+  });
+
+  // A refinement points from the subgoal to the goal it refines; a conflict is drawn once per pair.
+  const conflicts = new Set<string>();
+  model.goals.forEach((goal) => {
+    const goalNodeId = goalLookup.get(goal.name)!;
+    const related = [
+      ...(goal.refines ? [{ other: goal.refines, label: "refines" }] : []),
+      ...(goal.conflicts_with ?? []).map((other) => ({ other, label: "conflicts" })),
+    ];
+    related.forEach(({ other, label }) => {
+      const otherNodeId = goalLookup.get(other);
+      if (!otherNodeId) {
+        console.warn(
+          `[darTwinToReactFlow] Skipping "${goal.name} ${label} ${other}" because the goal "${other}" is missing.`
+        );
+        return;
+      }
+      if (label === "refines") {
+        addEdge(edges, {
+          id: `refine::${toSegment(goal.name)}::${toSegment(other)}`,
+          source: goalNodeId,
+          target: otherNodeId,
+          label,
+        });
+        return;
+      }
+      const pair = [goal.name, other].sort().map(toSegment).join("::");
+      if (!conflicts.has(pair) && otherNodeId !== goalNodeId) {
+        conflicts.add(pair);
+        addEdge(edges, { id: `conflict::${pair}`, source: goalNodeId, target: otherNodeId, label });
+      }
     });
   });
 
   return { nodes, edges };
 }
+
+/** Sets the evaluation status on the goal nodes that `evaluations` covers. */
+export function annotateEvaluation(
+  graph: DarTwinGraph,
+  evaluations: Map<string, GoalEvaluation>
+): DarTwinGraph {
+  return {
+    ...graph,
+    nodes: graph.nodes.map((node) => {
+      const evaluation = node.type === "goal" && node.ref ? evaluations.get(node.ref) : undefined;
+      return evaluation ? { ...node, evaluation: evaluation.status } : node;
+    }),
+  };
+}
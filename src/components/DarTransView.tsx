@@ -0,0 +1,149 @@
+import { useMemo, useState } from "react";
+import { ReactFlowProvider } from "reactflow";
+
+import { annotateDiff, darTransToReactFlow } from "../adapters/darTransToReactFlow";
+import { darTwinToReactFlow } from "../adapters/darTwinToReactFlow";
+import { applyDarTrans, type TransformationConflict } from "../dartrans/applyDarTrans";
+import { diffDarTrans } from "../dartrans/diffDarTwin";
+import type { DarTransSide } from "../dartrans/sliceModels";
+import { computeLayout } from "../layout/computeLayout";
+import { useLayout } from "../layout/useLayout";
+import type { DarTwinModel } from "../types/dartwin";
+import type { DarTwinGraph } from "../types/reactflow";
+import { formatLabel } from "../utils/format";
+import { DarTwinFrame } from "./DarTwinFrame";
+import { DiagramCanvas } from "./DiagramCanvas";
+
+type DarTransMode = "side-by-side" | DarTransSide | "evolved" | "diff";
+
+const MODES: Array<{ mode: DarTransMode; label: string }> = [
+  { mode: "side-by-side", label: "Side by side" },
+  { mode: "before", label: "Before" },
+  { mode: "after", label: "After" },
+  { mode: "evolved", label: "Evolved" },
+  { mode: "diff", label: "Diff JSON" },
+];
+
+const ignoreConnect = () => undefined;
+
+interface DarTransPaneProps {
+  title: string;
+  graph: DarTwinGraph;
+}
+
+function DarTransPane({ title, graph }: DarTransPaneProps) {
+  const layout = useMemo(() => computeLayout(graph), [graph]);
+  const { nodes, edges, onNodesChange, onEdgesChange } = useLayout(layout.nodes, layout.edges);
+
+  return (
+    <DarTwinFrame title={title}>
+      <DiagramCanvas
+        nodes={nodes}
+        edges={edges}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        onConnect={ignoreConnect}
+      />
+    </DarTwinFrame>
+  );
+}
+
+function ConflictList({ conflicts }: { conflicts: TransformationConflict[] }) {
+  if (conflicts.length === 0) {
+    return <div className="dartrans-conflicts ok">The transformation applies cleanly.</div>;
+  }
+  return (
+    <ul className="dartrans-conflicts">
+      {/* Both dangling ends of one connection report the same element, so the index keeps keys apart. */}
+      {conflicts.map((conflict, index) => (
+        <li key={`${index}:${conflict.kind}:${conflict.element}`}>{conflict.message}</li>
+      ))}
+    </ul>
+  );
+}
+
+interface DarTransViewProps {
+  model: DarTwinModel;
+}
+
+export function DarTransView({ model }: DarTransViewProps) {
+  const [mode, setMode] = useState<DarTransMode>("side-by-side");
+  const diff = useMemo(() => diffDarTrans(model), [model]);
+  const before = useMemo(() => {
+    const graph = darTransToReactFlow(model, "before");
+    return graph && diff ? annotateDiff(graph, diff) : graph;
+  }, [model, diff]);
+  const after = useMemo(() => {
+    const graph = darTransToReactFlow(model, "after");
+    return graph && diff ? annotateDiff(graph, diff) : graph;
+  }, [model, diff]);
+  const evolved = useMemo(() => {
+    const result = applyDarTrans(model);
+    return result && { graph: darTwinToReactFlow(result.model), conflicts: result.conflicts };
+  }, [model]);
+  const diffJson = useMemo(() => JSON.stringify(diff ?? {}, null, 2), [diff]);
+
+  if (!before || !after || !evolved) {
+    return (
+      <div className="dartrans-empty">
+        This specification has no <code>#dartrans</code> block to show.
+      </div>
+    );
+  }
+
+  const title = formatLabel(model.name);
+  const sides: Array<[DarTransSide, DarTwinGraph]> = [
+    ["before", before],
+    ["after", after],
+  ];
+  const visible = sides.filter(([side]) => mode === "side-by-side" || mode === side);
+
+  return (
+    <div className="dartrans-view">
+      <div className="dartrans-toolbar">
+        <div className="view-toggle" role="group" aria-label="DarTrans view mode">
+          {MODES.map((option) => (
+            <button
+              key={option.mode}
+              type="button"
+              className={`toggle-button${mode === option.mode ? " active" : ""}`}
+              onClick={() => setMode(option.mode)}
+              aria-pressed={mode === option.mode}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <span className="dartrans-legend">
+          <span className="legend-swatch core" aria-hidden="true" /> core
+          <span className="legend-swatch added" aria-hidden="true" /> added
+          <span className="legend-swatch removed" aria-hidden="true" /> removed
+          <span className="legend-swatch changed" aria-hidden="true" /> changed
+        </span>
+      </div>
+      {mode === "diff" ? (
+        <pre className="json-view">{diffJson}</pre>
+      ) : (
+        <div className="dartrans-panes">
+          {visible.map(([side, graph]) => (
+            <div className="dartrans-pane" key={side}>
+              <h3 className="dartrans-pane-title">{side}</h3>
+              <ReactFlowProvider>
+                <DarTransPane title={`${title} (${side})`} graph={graph} />
+              </ReactFlowProvider>
+            </div>
+          ))}
+          {mode === "evolved" && (
+            <div className="dartrans-pane">
+              <h3 className="dartrans-pane-title">evolved</h3>
+              <ConflictList conflicts={evolved.conflicts} />
+              <ReactFlowProvider>
+                <DarTransPane title={`${title} (evolved)`} graph={evolved.graph} />
+              </ReactFlowProvider>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
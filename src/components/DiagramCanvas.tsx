@@ -1,5 +1,5 @@
 import { useEffect } from "react";
-import { ReactFlow, useReactFlow } from "reactflow";
+import { ConnectionMode, ReactFlow, useReactFlow } from "reactflow";
 import type { Connection, Edge, Node, OnEdgesChange, OnNodesChange } from "reactflow";
 
 import { nodeTypes } from "./NodeTypes";
@@ -10,6 +10,7 @@ interface DiagramCanvasProps {
   onNodesChange: OnNodesChange;
   onEdgesChange: OnEdgesChange;
   onConnect: (connection: Connection) => void;
+  isValidConnection?: (connection: Connection) => boolean;
 }
 
 export function DiagramCanvas({
@@ -18,6 +19,7 @@ export function DiagramCanvas({
   onNodesChange,
   onEdgesChange,
   onConnect,
+  isValidConnection,
 }: DiagramCanvasProps) {
   const { fitView } = useReactFlow();
 
@@ -34,6 +36,8 @@ export function DiagramCanvas({
       onNodesChange={onNodesChange}
       onEdgesChange={onEdgesChange}
       onConnect={onConnect}
+      isValidConnection={isValidConnection}
+      connectionMode={ConnectionMode.Loose}
       nodeTypes={nodeTypes}
       proOptions={{ hideAttribution: true }}
       defaultEdgeOptions={{ type: "straight" }}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import type { Edge, Node } from "reactflow";
+
+import { exportSvg } from "../export/exportSvg";
+import { downloadBlob, svgToPng } from "../export/rasterize";
+import { graphToDot } from "../export/toDot";
+import { graphToMermaid } from "../export/toMermaid";
+import { graphToPlantUml } from "../export/toPlantUml";
+import { darTwinToSysml } from "../export/toSysml";
+import type { DarTwinModel } from "../types/dartwin";
+import type { DarTwinGraph } from "../types/reactflow";
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+const TEXT_FORMATS = [
+  { label: "DOT", extension: "dot", render: graphToDot },
+  { label: "Mermaid", extension: "mmd", render: graphToMermaid },
+  { label: "PlantUML", extension: "puml", render: graphToPlantUml },
+];
+
+interface DiagramExportControlsProps {
+  model: DarTwinModel;
+  graph: DarTwinGraph;
+  nodes: Node[];
+  edges: Edge[];
+  title: string;
+  fileName: string;
+}
+
+export function DiagramExportControls({
+  model,
+  graph,
+  nodes,
+  edges,
+  title,
+  fileName,
+}: DiagramExportControlsProps) {
+  const [scale, setScale] = useState(2);
+  const [error, setError] = useState<string | null>(null);
+
+  const svg = () => exportSvg(nodes, edges, { title });
+
+  const exportAsSvg = () => {
+    downloadBlob(new Blob([svg()], { type: "image/svg+xml" }), `${fileName}.svg`);
+  };
+
+  const downloadText = (text: string, extension: string) =>
+    downloadBlob(new Blob([text], { type: "text/plain" }), `${fileName}.${extension}`);
+
+  const exportAsPng = async () => {
+    try {
+      setError(null);
+      downloadBlob(await svgToPng(svg(), scale), `${fileName}@${scale}x.png`);
+    } catch (exportError) {
+      setError((exportError as Error).message);
+    }
+  };
+
+  return (
+    <div className="export-controls" role="group" aria-label="Export diagram">
+      <button type="button" className="toggle-button" onClick={exportAsSvg}>
+        SVG
+      </button>
+      <button type="button" className="toggle-button" onClick={exportAsPng}>
+        PNG
+      </button>
+      <select
+        className="export-scale"
+        value={scale}
+        onChange={(event) => setScale(Number(event.target.value))}
+        aria-label="PNG scale"
+      >
+        {PNG_SCALES.map((option) => (
+          <option key={option} value={option}>
+            {option}×
+          </option>
+        ))}
+      </select>
+      {TEXT_FORMATS.map((format) => (
+        <button
+          key={format.extension}
+          type="button"
+          className="toggle-button"
+          onClick={() => downloadText(format.render(graph), format.extension)}
+        >
+          {format.label}
+        </button>
+      ))}
+      <button
+        type="button"
+        className="toggle-button"
+        onClick={() => downloadText(darTwinToSysml(model), "sysml")}
+      >
+        SysML
+      </button>
+      {error ? (
+        <span className="export-error" role="alert">
+          {error}
+        </span>
+      ) : null}
+    </div>
+  );
+}
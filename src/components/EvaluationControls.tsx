@@ -0,0 +1,83 @@
+import type { ChangeEvent } from "react";
+
+import { parseMeasurementsCsv, type Measurements } from "../evaluation/measurementsCsv";
+
+/** The loaded evaluation data; the caller keeps it so that it outlives this control. */
+export interface EvaluationState {
+  fileName?: string;
+  measurements?: Measurements;
+  /** Rows of the file that could not be read. */
+  errors: string[];
+  /** Why the last file chosen was not loaded; the previous evaluation stays. */
+  fileError?: string;
+}
+
+export const NO_EVALUATION: EvaluationState = { errors: [] };
+
+interface EvaluationControlsProps {
+  evaluation: EvaluationState;
+  onChange: (evaluation: EvaluationState) => void;
+}
+
+/**
+ * Loads evaluation data from a local CSV file. Rows that cannot be read are
+ * listed in the tooltip of the error count; the rest still count. A file that
+ * cannot be read, or lacks the required columns, is rejected as a whole.
+ */
+export function EvaluationControls({ evaluation, onChange }: EvaluationControlsProps) {
+  const { fileName, errors, fileError } = evaluation;
+
+  const loadFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      onChange({
+        ...evaluation,
+        fileError: `Could not read ${file.name}: ${(error as Error).message}`,
+      });
+      return;
+    }
+    const result = parseMeasurementsCsv(text);
+    if (result.rejected) {
+      onChange({
+        ...evaluation,
+        fileError: `${file.name} was rejected: ${result.errors[0]!.message}`,
+      });
+      return;
+    }
+    onChange({
+      fileName: file.name,
+      measurements: result.measurements,
+      errors: result.errors.map((error) => `Line ${error.line}: ${error.message}`),
+    });
+  };
+
+  return (
+    <div className="evaluation-controls" role="group" aria-label="Evaluate goals">
+      <label className="toggle-button" title="Load measurements from a CSV file">
+        {fileName ?? "Evaluate CSV…"}
+        <input type="file" accept=".csv,text/csv" hidden onChange={loadFile} />
+      </label>
+      {fileName ? (
+        <button type="button" className="toggle-button" onClick={() => onChange(NO_EVALUATION)}>
+          Clear
+        </button>
+      ) : null}
+      {fileError ? (
+        <span className="export-error" role="alert">
+          {fileError}
+        </span>
+      ) : errors.length > 0 ? (
+        <span className="export-error" role="alert" title={errors.join("\n")}>
+          {errors.length === 1 ? "1 row skipped" : `${errors.length} rows skipped`}
+        </span>
+      ) : null}
+    </div>
+  );
+}
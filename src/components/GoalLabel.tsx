@@ -1,13 +1,26 @@
+import type { GoalStatus } from "../evaluation/evaluateGoals";
+import { EVALUATION_LABELS } from "../layout/labels";
+
 interface GoalLabelProps {
   title: string;
   doc?: string;
+  criteria?: string[];
+  evaluation?: GoalStatus;
 }
 
-export function GoalLabel({ title, doc }: GoalLabelProps) {
+export function GoalLabel({ title, doc, criteria = [], evaluation }: GoalLabelProps) {
   return (
     <div className="goal-box">
       <div className="goal-title">{title}</div>
       {doc ? <div className="goal-doc">{doc}</div> : null}
+      {criteria.map((criterion, index) => (
+        <div key={index} className="goal-criterion">
+          {criterion}
+        </div>
+      ))}
+      {evaluation ? (
+        <div className={`goal-badge goal-badge-${evaluation}`}>{EVALUATION_LABELS[evaluation]}</div>
+      ) : null}
     </div>
   );
 }
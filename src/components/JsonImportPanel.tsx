@@ -0,0 +1,73 @@
+import { useState, type ChangeEvent } from "react";
+
+import { importDarTwinJson } from "../importers/importDarTwinJson";
+
+interface JsonImportPanelProps {
+  onImport: (text: string) => void;
+}
+
+export function JsonImportPanel({ onImport }: JsonImportPanelProps) {
+  const [json, setJson] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const load = (source: string) => {
+    const result = importDarTwinJson(source);
+    if (result.ok) {
+      setErrors([]);
+      setJson("");
+      onImport(result.text);
+    } else {
+      setErrors(result.errors);
+    }
+  };
+
+  const loadFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    let source: string;
+    try {
+      source = await file.text();
+    } catch (error) {
+      setErrors([`Could not read ${file.name}: ${(error as Error).message}`]);
+      return;
+    }
+    setJson(source);
+    load(source);
+  };
+
+  return (
+    <section className="json-import" aria-label="Import JSON">
+      <textarea
+        className="json-import-input"
+        placeholder="Paste a DarTwin JSON model here"
+        value={json}
+        onChange={(event) => setJson(event.target.value)}
+        spellCheck={false}
+      />
+      <div className="json-import-actions">
+        <button
+          type="button"
+          className="toggle-button"
+          onClick={() => load(json)}
+          disabled={!json.trim()}
+        >
+          Load into editor
+        </button>
+        <label className="toggle-button">
+          Open file…
+          <input type="file" accept=".json,application/json" hidden onChange={loadFile} />
+        </label>
+      </div>
+      {errors.length > 0 && (
+        <ul className="json-import-errors">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
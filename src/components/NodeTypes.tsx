@@ -1,5 +1,9 @@
-import type { NodeProps, NodeTypes } from "reactflow";
+import { Handle, Position, type NodeProps, type NodeTypes } from "reactflow";
 
+import type { GoalStatus } from "../evaluation/evaluateGoals";
+import { HEADER_PREFIXES } from "../layout/labels";
+import { PORT_HANDLES } from "../layout/placement";
+import type { PortDirection, PortKind } from "../types/dartwin";
 import { GoalLabel } from "./GoalLabel";
 import { TwinSystemBox } from "./TwinSystemBox";
 
@@ -7,35 +11,80 @@ export interface BaseNodeData {
   label: string;
   parent?: string;
   kind: string;
+  ref?: string;
 }
 
 export interface GoalNodeData extends BaseNodeData {
   doc?: string;
+  criteria?: string[];
+  evaluation?: GoalStatus;
 }
 
 export interface DigitalTwinNodeData extends BaseNodeData {}
 
 export interface PortNodeData extends BaseNodeData {
   caption?: string;
+  direction?: PortDirection;
+  portKind?: PortKind;
 }
 
+/** Tooltip in DSL notation, e.g. `in port moisture_feed : sensor`. */
+const portTitle = ({ label, direction, portKind }: PortNodeData) =>
+  `${direction ? `${direction} ` : ""}port ${label}${portKind ? ` : ${portKind}` : ""}`;
+
+/**
+ * One handle per node is enough: the diagram runs in loose connection mode, so
+ * a drag can start or end on any handle and App decides what it means.
+ */
+const ConnectHandle = ({ position, id }: { position: Position; id?: string }) => (
+  <Handle type="source" position={position} id={id} className="connect-handle" />
+);
+
+/** The goal a goal refines sits above it; its subgoals and allocated elements sit below. */
 const GoalNode = ({ data }: NodeProps<GoalNodeData>) => (
-  <GoalLabel title={data.label} doc={data.doc} />
+  <>
+    <GoalLabel
+      title={data.label}
+      doc={data.doc}
+      criteria={data.criteria}
+      evaluation={data.evaluation}
+    />
+    <ConnectHandle position={Position.Bottom} id={PORT_HANDLES.bottom} />
+    <ConnectHandle position={Position.Top} id={PORT_HANDLES.top} />
+  </>
 );
 
 const TwinSystemNode = ({ data }: NodeProps<BaseNodeData>) => (
-  <TwinSystemBox prefix="twin.system" label={data.label} />
+  <>
+    <TwinSystemBox prefix={HEADER_PREFIXES.twinsystem} label={data.label} />
+    <ConnectHandle position={Position.Top} />
+  </>
 );
 
 const DigitalTwinNode = ({ data }: NodeProps<DigitalTwinNodeData>) => (
-  <TwinSystemBox prefix="digital twin" label={data.label} />
+  <>
+    <TwinSystemBox prefix={HEADER_PREFIXES.dt} label={data.label} />
+    <ConnectHandle position={Position.Top} />
+  </>
 );
 
-const HiddenNode = () => null;
+const PartNode = ({ data }: NodeProps<BaseNodeData>) => (
+  <>
+    <TwinSystemBox prefix={HEADER_PREFIXES.at} label={data.label} />
+    <ConnectHandle position={Position.Top} />
+  </>
+);
 
+/**
+ * Ports have a handle on either side of their square; the layout attaches each
+ * connection to the side that faces the other end.
+ */
 const PortNode = ({ data }: NodeProps<PortNodeData>) => (
-  <div className="port-node" title={data.label}>
-    <div className="port-square" aria-hidden="true" />
+  <div className="port-node" title={portTitle(data)}>
+    <div className="port-square" aria-hidden="true">
+      <ConnectHandle position={Position.Top} id={PORT_HANDLES.top} />
+      <ConnectHandle position={Position.Bottom} id={PORT_HANDLES.bottom} />
+    </div>
     {data.caption ? <span className="port-caption">{data.caption}</span> : null}
   </div>
 );
@@ -44,6 +93,6 @@ export const nodeTypes: NodeTypes = {
   goal: GoalNode,
   twinsystem: TwinSystemNode,
   dt: DigitalTwinNode,
-  at: HiddenNode,
+  at: PartNode,
   port: PortNode,
 };
@@ -0,0 +1,51 @@
+import type { Diagnostic } from "../types/diagnostics";
+
+interface ProblemsPanelProps {
+  problems: Diagnostic[];
+  onSelect: (problem: Diagnostic) => void;
+}
+
+const SEVERITY_ICONS: Record<Diagnostic["severity"], string> = {
+  error: "✖",
+  warning: "▲",
+  info: "ℹ",
+};
+
+export function ProblemsPanel({ problems, onSelect }: ProblemsPanelProps) {
+  const errorCount = problems.filter((problem) => problem.severity === "error").length;
+  const warningCount = problems.filter((problem) => problem.severity === "warning").length;
+
+  return (
+    <section className="problems-panel" aria-label="Problems">
+      <header className="problems-header">
+        <span>Problems</span>
+        <span className="problems-count">
+          {errorCount} errors, {warningCount} warnings
+        </span>
+      </header>
+      {problems.length === 0 ? (
+        <p className="problems-empty">No problems detected.</p>
+      ) : (
+        <ul className="problems-list">
+          {problems.map((problem, index) => (
+            <li key={`${problem.range.start.line}:${problem.range.start.column}:${index}`}>
+              <button
+                type="button"
+                className={`problem-item problem-${problem.severity}`}
+                onClick={() => onSelect(problem)}
+              >
+                <span className="problem-icon" aria-label={problem.severity}>
+                  {SEVERITY_ICONS[problem.severity]}
+                </span>
+                <span className="problem-message">{problem.message}</span>
+                <span className="problem-location">
+                  {problem.range.start.line}:{problem.range.start.column}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
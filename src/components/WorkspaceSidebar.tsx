@@ -0,0 +1,130 @@
+import { useState, type FormEvent } from "react";
+
+import type { WorkspaceDocument } from "../workspace/documents";
+
+interface WorkspaceSidebarProps {
+  documents: WorkspaceDocument[];
+  activeId?: string;
+  storageError?: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  /** Returns why the name was refused, or undefined once the document is renamed. */
+  onRename: (id: string, name: string) => string | undefined;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/** Lists the workspace documents; the open one offers rename, duplicate and delete. */
+export function WorkspaceSidebar({
+  documents,
+  activeId,
+  storageError,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: WorkspaceSidebarProps) {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [renameError, setRenameError] = useState<string | undefined>();
+
+  const startRename = (document: WorkspaceDocument) => {
+    setRenaming(document.id);
+    setDraft(document.name);
+    setRenameError(undefined);
+  };
+
+  const stopRename = () => {
+    setRenaming(null);
+    setRenameError(undefined);
+  };
+
+  const submitRename = (event: FormEvent, id: string) => {
+    event.preventDefault();
+    const error = onRename(id, draft);
+    if (error) {
+      setRenameError(error);
+    } else {
+      stopRename();
+    }
+  };
+
+  const confirmDelete = (document: WorkspaceDocument) => {
+    if (window.confirm(`Delete "${document.name}"? This cannot be undone.`)) {
+      onDelete(document.id);
+    }
+  };
+
+  return (
+    <nav className="workspace-sidebar" aria-label="Documents">
+      <div className="workspace-header">
+        <h2>Documents</h2>
+        <button type="button" className="toggle-button" onClick={onCreate}>
+          New
+        </button>
+      </div>
+      <ul className="workspace-list">
+        {documents.map((document) => {
+          const active = document.id === activeId;
+          return (
+            <li key={document.id} className={`workspace-item${active ? " active" : ""}`}>
+              {renaming === document.id ? (
+                <form onSubmit={(event) => submitRename(event, document.id)}>
+                  <input
+                    className="workspace-rename"
+                    value={draft}
+                    onChange={(event) => setDraft(event.target.value)}
+                    onKeyDown={(event) => event.key === "Escape" && stopRename()}
+                    onBlur={stopRename}
+                    aria-label="Document name"
+                    autoFocus
+                  />
+                  {renameError ? (
+                    <div className="workspace-error" role="alert">
+                      {renameError}
+                    </div>
+                  ) : null}
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  className="workspace-name"
+                  onClick={() => onSelect(document.id)}
+                  onDoubleClick={() => startRename(document)}
+                  aria-current={active ? "page" : undefined}
+                  title={`Edited ${new Date(document.updatedAt).toLocaleString()}`}
+                >
+                  {document.name}
+                </button>
+              )}
+              {active && renaming !== document.id ? (
+                <div className="workspace-actions">
+                  <button type="button" onClick={() => startRename(document)}>
+                    Rename
+                  </button>
+                  <button type="button" onClick={() => onDuplicate(document.id)}>
+                    Duplicate
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => confirmDelete(document)}
+                    disabled={documents.length < 2}
+                    title={documents.length < 2 ? "The last document cannot be deleted" : undefined}
+                  >
+                    Delete
+                  </button>
+                </div>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+      {storageError ? (
+        <p className="workspace-error" role="alert">
+          {storageError}
+        </p>
+      ) : null}
+    </nav>
+  );
+}
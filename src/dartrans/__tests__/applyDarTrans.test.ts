@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { printDarTwin } from "../../printer/printDarTwin";
+import { applyDarTrans } from "../applyDarTrans";
+
+const greenhouse = (before: string) => `#dartwin Greenhouse {
+  #twinsystem Strawberry {
+    #digitaltwin StrawberryDT { port input; }
+    part Cultivation { port MultiSensor; port HumanActuator; }
+    connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input;
+  }
+  #goal increase_yield;
+  allocate increase_yield to Strawberry.StrawberryDT;
+  #dartrans {
+    #core {
+      #twinsystem Strawberry {
+        #digitaltwin StrawberryDT { port input; }
+        part Cultivation { port MultiSensor; }
+        connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input;
+      }
+      #goal increase_yield;
+    }
+    #before {
+${before}
+    }
+    #after {
+      #twinsystem Strawberry {
+        #digitaltwin StrawberryDT { port output; }
+        part Cultivation { port IrrigationActuator; }
+        connect StrawberryDT.output to Strawberry.Cultivation.IrrigationActuator;
+      }
+      allocate increase_yield to StrawberryDT;
+    }
+  }
+}`;
+
+describe("applyDarTrans", () => {
+  it("replaces the before slice with the after slice and keeps the core", () => {
+    const result = applyDarTrans(
+      parseDarTwin(
+        greenhouse(`      #twinsystem Strawberry { part Cultivation { port HumanActuator; } }
+      allocate increase_yield to Strawberry.StrawberryDT;`)
+      )
+    );
+
+    expect(result?.conflicts).toEqual([]);
+    expect(printDarTwin(result!.model)).toMatchInlineSnapshot(`
+      "#dartwin Greenhouse {
+        #twinsystem Strawberry {
+          #digitaltwin StrawberryDT {
+            port input;
+            port output;
+          }
+
+          part Cultivation {
+            port MultiSensor;
+            port IrrigationActuator;
+          }
+
+          connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input;
+          connect StrawberryDT.output to Strawberry.Cultivation.IrrigationActuator;
+        }
+
+        #goal increase_yield;
+
+        allocate increase_yield to StrawberryDT;
+      }
+      "
+    `);
+  });
+
+  it("reports before elements that the base model does not contain", () => {
+    const result = applyDarTrans(
+      parseDarTwin(greenhouse("      #twinsystem Strawberry { part Cultivation { port Valve; } }"))
+    );
+
+    expect(result?.conflicts).toEqual([
+      {
+        kind: "missing-in-base",
+        element: "port:Strawberry.Cultivation.Valve",
+        message:
+          "#before refers to port Strawberry.Cultivation.Valve, which the base model does not contain.",
+      },
+    ]);
+  });
+
+  it("reports connections left dangling by removed elements", () => {
+    const result = applyDarTrans(
+      parseDarTwin(`#dartwin Plant {
+  #twinsystem Line {
+    #digitaltwin LineDT { port input; }
+    part Press { port sensor; }
+    connect Line.Press.sensor to LineDT.input;
+  }
+  #dartrans {
+    #core { #twinsystem Line { #digitaltwin LineDT { port input; } } }
+    #before { #twinsystem Line { part Press { } } }
+    #after { }
+  }
+}`)
+    );
+
+    expect(result?.conflicts.map((conflict) => conflict.kind)).toEqual(["dangling-reference"]);
+    expect(result?.model.systems[0]?.original_twins).toEqual([]);
+  });
+
+  it("keeps the rest of a system that #before lists only to enclose a replaced element", () => {
+    const result = applyDarTrans(
+      parseDarTwin(`#dartwin Plant {
+  #twinsystem Base {
+    #digitaltwin DT { port p; }
+    part Machine { port q; part Motor { port shaft; } }
+    connect DT.p to Base.Machine.q;
+  }
+  #dartrans {
+    #before { #twinsystem Base { #digitaltwin DT { port p; } } }
+    #after { #twinsystem Base { #digitaltwin DT2 { } } }
+  }
+}`)
+    );
+
+    const [base] = result!.model.systems;
+    expect(base?.digital_twins.map((dt) => dt.name)).toEqual(["DT2"]);
+    expect(base?.original_twins).toEqual([
+      {
+        name: "Machine",
+        ports: [{ name: "q" }],
+        parts: [{ name: "Motor", ports: [{ name: "shaft" }] }],
+      },
+    ]);
+    expect(result?.conflicts.map((conflict) => conflict.element)).toEqual([
+      "connection:Base:DT.p->Base.Machine.q",
+    ]);
+  });
+
+  it("returns undefined without a DarTrans", () => {
+    expect(applyDarTrans(parseDarTwin("#dartwin Empty { }"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+
+import { annotateDiff, darTransToReactFlow } from "../../adapters/darTransToReactFlow";
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { diffDarTrans, diffDarTwin } from "../diffDarTwin";
+
+const transformation = `#dartwin Greenhouse {
+  #dartrans {
+    #core {
+      #twinsystem Strawberry {
+        #digitaltwin StrawberryDT { port input; }
+        part Cultivation { port MultiSensor; }
+        connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input;
+      }
+      #goal increase_yield;
+    }
+    #before {
+      #twinsystem Strawberry { part Cultivation { port HumanActuator; } }
+      #goal save_water { doc /* lower than before */ }
+      allocate increase_yield to Strawberry.StrawberryDT;
+    }
+    #after {
+      #twinsystem Strawberry {
+        #digitaltwin StrawberryDT { port output; }
+        part Cultivation { port IrrigationActuator; }
+        connect StrawberryDT.output to Strawberry.Cultivation.IrrigationActuator;
+      }
+      #goal save_water { doc /* much lower than before */ }
+      allocate increase_yield to StrawberryDT;
+    }
+  }
+}`;
+
+describe("diffDarTwin", () => {
+  it("reports added, removed and changed elements between DarTrans sides", () => {
+    expect(diffDarTrans(parseDarTwin(transformation))).toEqual({
+      systems: [
+        { kind: "system", key: "Strawberry", status: "changed", changes: ["contents changed"] },
+      ],
+      digitalTwins: [
+        {
+          kind: "digitalTwin",
+          key: "Strawberry.StrawberryDT",
+          status: "changed",
+          changes: ["+ port output"],
+        },
+      ],
+      parts: [
+        {
+          kind: "part",
+          key: "Strawberry.Cultivation",
+          status: "changed",
+          changes: ["- port HumanActuator", "+ port IrrigationActuator"],
+        },
+      ],
+      ports: [
+        { kind: "port", key: "Strawberry.Cultivation.HumanActuator", status: "removed" },
+        { kind: "port", key: "Strawberry.StrawberryDT.output", status: "added" },
+        { kind: "port", key: "Strawberry.Cultivation.IrrigationActuator", status: "added" },
+      ],
+      connections: [
+        {
+          kind: "connection",
+          key: "Strawberry.StrawberryDT.output->Strawberry.Cultivation.IrrigationActuator",
+          status: "added",
+        },
+      ],
+      goals: [
+        {
+          kind: "goal",
+          key: "save_water",
+          status: "changed",
+          changes: ["- doc: lower than before", "+ doc: much lower than before"],
+        },
+      ],
+      allocations: [],
+    });
+  });
+
+  it("compares whole models as well as slices", () => {
+    const before = parseDarTwin("#dartwin A { #goal g; }");
+    const diff = diffDarTwin(before, { goals: [{ name: "h" }] });
+    expect(diff.goals).toEqual([
+      { kind: "goal", key: "g", status: "removed" },
+      { kind: "goal", key: "h", status: "added" },
+    ]);
+  });
+
+  it("marks both systems of a changed cross-system connection", () => {
+    const systems = `#twinsystem A { part P { port out; } }
+  #twinsystem B { part Q { port in; } }`;
+    const before = parseDarTwin(`#dartwin M {\n  ${systems}\n}`);
+    const after = parseDarTwin(`#dartwin M {\n  ${systems}\n  connect A.P.out to B.Q.in;\n}`);
+    const diff = diffDarTwin(before, after);
+    expect(diff.connections).toEqual([
+      { kind: "connection", key: "A.P.out->B.Q.in", status: "added" },
+    ]);
+    expect(diff.systems.map((entry) => entry.key)).toEqual(["A", "B"]);
+  });
+
+  it("colours diagram elements by their diff status", () => {
+    const model = parseDarTwin(transformation);
+    const diff = diffDarTrans(model)!;
+    const before = annotateDiff(darTransToReactFlow(model, "before")!, diff);
+    const after = annotateDiff(darTransToReactFlow(model, "after")!, diff);
+    const statusOf = (graph: typeof before, label: string) =>
+      graph.nodes.find((node) => node.label === label)?.diff;
+
+    expect(statusOf(before, "HumanActuator")).toBe("removed");
+    expect(statusOf(after, "IrrigationActuator")).toBe("added");
+    expect(statusOf(after, "Cultivation")).toBe("changed");
+    expect(statusOf(after, "MultiSensor")).toBeUndefined();
+    expect(after.edges.map((edge) => edge.diff)).toEqual([undefined, "added", undefined]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { darTransConfiguration, mergeSlices } from "../sliceModels";
+
+const transformation = `#dartwin Greenhouse {
+  #dartrans {
+    #core {
+      #twinsystem Strawberry {
+        #digitaltwin StrawberryDT { port multisensor_input; }
+        part Cultivation { port MultiSensor; }
+        connect Strawberry.Cultivation.MultiSensor to StrawberryDT.multisensor_input;
+      }
+      #goal increase_yield { doc /* yield y higher y than before */ }
+    }
+    #before {
+      #twinsystem Strawberry {
+        part Cultivation { port HumanActuator; }
+      }
+      allocate increase_yield to Strawberry.StrawberryDT;
+    }
+    #after {
+      #twinsystem Strawberry {
+        #digitaltwin StrawberryDT { port actuator_output_irrigation; }
+        part Cultivation { port IrrigationActuator; }
+        connect StrawberryDT.actuator_output_irrigation to Strawberry.Cultivation.IrrigationActuator;
+      }
+      allocate increase_yield to Strawberry.StrawberryDT;
+    }
+  }
+}`;
+
+describe("sliceModels", () => {
+  it("merges slices by element name", () => {
+    const merged = mergeSlices(
+      {
+        systems: [
+          {
+            name: "S",
+            digital_twins: [{ name: "DT", ports: [{ name: "a" }] }],
+            original_twins: [],
+            connections: [],
+          },
+        ],
+      },
+      undefined,
+      {
+        systems: [
+          {
+            name: "S",
+            digital_twins: [{ name: "DT", ports: [{ name: "a" }, { name: "b" }] }],
+            original_twins: [],
+            connections: [],
+          },
+        ],
+        goals: [{ name: "g" }],
+      },
+    );
+    expect(merged).toEqual({
+      systems: [
+        {
+          name: "S",
+          digital_twins: [{ name: "DT", ports: [{ name: "a" }, { name: "b" }] }],
+          original_twins: [],
+          connections: [],
+        },
+      ],
+      connections: [],
+      goals: [{ name: "g" }],
+      allocations: [],
+    });
+  });
+
+  it("combines #core with each side of the transformation", () => {
+    const model = parseDarTwin(transformation);
+    const before = darTransConfiguration(model, "before");
+    const after = darTransConfiguration(model, "after");
+
+    expect(before?.systems[0].original_twins).toEqual([
+      { name: "Cultivation", ports: [{ name: "MultiSensor" }, { name: "HumanActuator" }] },
+    ]);
+    expect(after?.systems[0].digital_twins).toEqual([
+      {
+        name: "StrawberryDT",
+        ports: [{ name: "multisensor_input" }, { name: "actuator_output_irrigation" }],
+      },
+    ]);
+    expect(after?.systems[0].connections).toHaveLength(2);
+    expect(after?.goals.map((goal) => goal.name)).toEqual(["increase_yield"]);
+    expect(darTransConfiguration(parseDarTwin("#dartwin Plain { }"), "before")).toBeUndefined();
+  });
+});
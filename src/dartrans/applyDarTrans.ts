@@ -0,0 +1,238 @@
+import { createReferenceIndex, flattenParts, type ReferenceIndex } from "../model/references";
+import type { DarTwinModel, OriginalTwin, PartialDarTwinSlice, Port } from "../types/dartwin";
+import { mergeSlices, sliceToModel } from "./sliceModels";
+
+export type ConflictKind = "missing-in-base" | "dangling-reference";
+
+export interface TransformationConflict {
+  kind: ConflictKind;
+  /** Element key such as `port:System.DT.p` or `connection:System.A.p->System.B.q`. */
+  element: string;
+  message: string;
+}
+
+export interface ApplyDarTransResult {
+  model: DarTwinModel;
+  conflicts: TransformationConflict[];
+}
+
+interface KeyedElement {
+  key: string;
+  label: string;
+  /** A system or part that declares contents only scopes them; it is not itself listed. */
+  scope?: boolean;
+}
+
+const connectionKey = (index: ReferenceIndex, system: string, from: string, to: string) => {
+  const resolvedFrom = index.resolvePort(system, from)?.path ?? `${system}:${from}`;
+  const resolvedTo = index.resolvePort(system, to)?.path ?? `${system}:${to}`;
+  return `connection:${resolvedFrom}->${resolvedTo}`;
+};
+
+/** Connections between twin systems already name both ends by their full path. */
+const dartwinConnectionKey = (from: string, to: string) =>
+  `connection:${from.trim()}->${to.trim()}`;
+
+const allocationKey = (index: ReferenceIndex, goal: string, target: string) =>
+  `allocation:${goal}->${index.resolveElement(target)?.path ?? target}`;
+
+/**
+ * Lists every element of a slice under a stable key. References are resolved
+ * against `index` (the base model) so that `DT.p` and `System.DT.p` coincide.
+ */
+const elementsOf = (slice: PartialDarTwinSlice, index: ReferenceIndex): KeyedElement[] => {
+  const elements: KeyedElement[] = [];
+  (slice.systems ?? []).forEach((system) => {
+    elements.push({
+      key: `system:${system.name}`,
+      label: `twin system ${system.name}`,
+      scope:
+        system.digital_twins.length > 0 ||
+        system.original_twins.length > 0 ||
+        system.connections.length > 0,
+    });
+    system.digital_twins.forEach((dt) => {
+      const path = `${system.name}.${dt.name}`;
+      elements.push({ key: `dt:${path}`, label: `digital twin ${path}` });
+      dt.ports.forEach(({ name }) =>
+        elements.push({ key: `port:${path}.${name}`, label: `port ${path}.${name}` })
+      );
+    });
+    flattenParts(system.original_twins).forEach(({ part, path: partPath }) => {
+      const path = `${system.name}.${partPath}`;
+      elements.push({
+        key: `part:${path}`,
+        label: `part ${path}`,
+        scope: part.ports.length > 0 || (part.parts ?? []).length > 0,
+      });
+      part.ports.forEach(({ name }) =>
+        elements.push({ key: `port:${path}.${name}`, label: `port ${path}.${name}` })
+      );
+    });
+    system.connections.forEach((connection) =>
+      elements.push({
+        key: connectionKey(index, system.name, connection.from, connection.to),
+        label: `connection ${connection.from} -> ${connection.to}`,
+      })
+    );
+  });
+  (slice.connections ?? []).forEach((connection) =>
+    elements.push({
+      key: dartwinConnectionKey(connection.from, connection.to),
+      label: `connection ${connection.from} -> ${connection.to}`,
+    })
+  );
+  (slice.goals ?? []).forEach((goal) =>
+    elements.push({ key: `goal:${goal.name}`, label: `goal ${goal.name}` })
+  );
+  (slice.allocations ?? []).forEach((allocation) =>
+    elements.push({
+      key: allocationKey(index, allocation.goal, allocation.target),
+      label: `allocation ${allocation.goal} -> ${allocation.target}`,
+    })
+  );
+  return elements;
+};
+
+const removeElements = (
+  base: DarTwinModel,
+  removed: Set<string>,
+  index: ReferenceIndex
+): PartialDarTwinSlice => ({
+  systems: base.systems
+    .filter((system) => !removed.has(`system:${system.name}`))
+    .map((system) => {
+      const withoutRemovedPorts = <T extends { ports: Port[] }>(owner: T, path: string): T => ({
+        ...owner,
+        ports: owner.ports.filter(
+          (port) => !removed.has(`port:${system.name}.${path}.${port.name}`)
+        ),
+      });
+      const withoutRemovedParts = (parts: OriginalTwin[], prefix?: string): OriginalTwin[] =>
+        parts.flatMap((part) => {
+          const path = prefix ? `${prefix}.${part.name}` : part.name;
+          if (removed.has(`part:${system.name}.${path}`)) {
+            return [];
+          }
+          const kept = withoutRemovedPorts(part, path);
+          return [part.parts ? { ...kept, parts: withoutRemovedParts(part.parts, path) } : kept];
+        });
+      return {
+        ...system,
+        digital_twins: system.digital_twins
+          .filter((dt) => !removed.has(`dt:${system.name}.${dt.name}`))
+          .map((dt) => withoutRemovedPorts(dt, dt.name)),
+        original_twins: withoutRemovedParts(system.original_twins),
+        connections: system.connections.filter(
+          (connection) =>
+            !removed.has(connectionKey(index, system.name, connection.from, connection.to))
+        ),
+      };
+    }),
+  connections: (base.connections ?? []).filter(
+    (connection) => !removed.has(dartwinConnectionKey(connection.from, connection.to))
+  ),
+  goals: base.goals.filter((goal) => !removed.has(`goal:${goal.name}`)),
+  allocations: base.allocations.filter(
+    (allocation) => !removed.has(allocationKey(index, allocation.goal, allocation.target))
+  ),
+});
+
+const danglingReferences = (model: DarTwinModel): TransformationConflict[] => {
+  const index = createReferenceIndex(model);
+  const goals = new Set(model.goals.map((goal) => goal.name));
+  const conflicts: TransformationConflict[] = [];
+
+  model.systems.forEach((system) => {
+    system.connections.forEach((connection) => {
+      [connection.from, connection.to]
+        .filter((reference) => !index.resolvePort(system.name, reference))
+        .forEach((reference) =>
+          conflicts.push({
+            kind: "dangling-reference",
+            element: connectionKey(index, system.name, connection.from, connection.to),
+            message: `Connection ${connection.from} -> ${connection.to} refers to "${reference}", which the evolved twin no longer has.`,
+          })
+        );
+    });
+  });
+  (model.connections ?? []).forEach((connection) => {
+    [connection.from, connection.to]
+      .filter((reference) => !index.resolveQualifiedPort(reference))
+      .forEach((reference) =>
+        conflicts.push({
+          kind: "dangling-reference",
+          element: dartwinConnectionKey(connection.from, connection.to),
+          message: `Connection ${connection.from} -> ${connection.to} refers to "${reference}", which the evolved twin no longer has.`,
+        })
+      );
+  });
+  model.goals.forEach((goal) => {
+    [...(goal.refines ? [goal.refines] : []), ...(goal.conflicts_with ?? [])]
+      .filter((other) => !goals.has(other))
+      .forEach((other) =>
+        conflicts.push({
+          kind: "dangling-reference",
+          element: `goal:${goal.name}`,
+          message: `Goal ${goal.name} refers to goal "${other}", which the evolved twin no longer has.`,
+        })
+      );
+  });
+  model.allocations.forEach((allocation) => {
+    if (!goals.has(allocation.goal) || !index.resolveElement(allocation.target)) {
+      conflicts.push({
+        kind: "dangling-reference",
+        element: allocationKey(index, allocation.goal, allocation.target),
+        message: `Allocation ${allocation.goal} -> ${allocation.target} refers to an element the evolved twin no longer has.`,
+      });
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Applies the model's DarTrans to its top-level elements, which act as the
+ * base twin. Everything in `#core` and `#before` must exist in the base; the
+ * `#before` elements that are not also `#core` are replaced by `#after`. A
+ * system or part with contents in `#before` only encloses them, so just those
+ * contents are replaced; listed empty, it is replaced whole.
+ * Returns undefined when the model has no `#dartrans` block.
+ */
+export function applyDarTrans(model: DarTwinModel): ApplyDarTransResult | undefined {
+  const { dartrans } = model;
+  if (!dartrans) {
+    return undefined;
+  }
+
+  const index = createReferenceIndex(model);
+  const baseKeys = new Set(elementsOf(model, index).map((element) => element.key));
+  const conflicts: TransformationConflict[] = [];
+
+  (["core", "before"] as const).forEach((section) => {
+    elementsOf(dartrans[section] ?? {}, index)
+      .filter((element) => !baseKeys.has(element.key))
+      .forEach((element) =>
+        conflicts.push({
+          kind: "missing-in-base",
+          element: element.key,
+          message: `#${section} refers to ${element.label}, which the base model does not contain.`,
+        })
+      );
+  });
+
+  const coreKeys = new Set(elementsOf(dartrans.core ?? {}, index).map((element) => element.key));
+  const removed = new Set(
+    elementsOf(dartrans.before ?? {}, index)
+      .filter((element) => !element.scope)
+      .map((element) => element.key)
+      .filter((key) => !coreKeys.has(key))
+  );
+
+  const evolved = sliceToModel(
+    model.name,
+    mergeSlices(removeElements(model, removed, index), dartrans.after)
+  );
+
+  return { model: evolved, conflicts: [...conflicts, ...danglingReferences(evolved)] };
+}
@@ -0,0 +1,201 @@
+import { createReferenceIndex, flattenParts, type PortReference } from "../model/references";
+import type { DarTwinModel, Goal, PartialDarTwinSlice } from "../types/dartwin";
+import { darTransConfiguration, sliceToModel } from "./sliceModels";
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type DiffElementKind =
+  "system" | "digitalTwin" | "part" | "port" | "connection" | "goal" | "allocation";
+
+export interface DiffEntry {
+  kind: DiffElementKind;
+  /** Dotted path of the element, or `from->to` for connections and allocations. */
+  key: string;
+  status: Exclude<DiffStatus, "unchanged">;
+  /** What differs for `changed` entries. */
+  changes?: string[];
+}
+
+export interface DarTwinDiff {
+  systems: DiffEntry[];
+  digitalTwins: DiffEntry[];
+  parts: DiffEntry[];
+  ports: DiffEntry[];
+  connections: DiffEntry[];
+  goals: DiffEntry[];
+  allocations: DiffEntry[];
+}
+
+type Comparable = DarTwinModel | PartialDarTwinSlice;
+
+/** Element snapshot on one side: key → description used to detect changes. */
+type Snapshot = Map<string, string[]>;
+
+interface Snapshots {
+  systems: Snapshot;
+  digitalTwins: Snapshot;
+  parts: Snapshot;
+  ports: Snapshot;
+  connections: Snapshot;
+  goals: Snapshot;
+  allocations: Snapshot;
+}
+
+const toModel = (value: Comparable): DarTwinModel =>
+  "type" in value && value.type === "DarTwin" ? value : sliceToModel("", value);
+
+const portFacts = (port: PortReference) => [
+  ...(port.direction ? [`direction: ${port.direction}`] : []),
+  ...(port.kind ? [`kind: ${port.kind}`] : []),
+];
+
+const goalFacts = (goal: Goal) => [
+  ...(goal.doc ? [`doc: ${goal.doc}`] : []),
+  ...(goal.refines ? [`refines: ${goal.refines}`] : []),
+  ...(goal.conflicts_with ?? []).map((other) => `conflicts with: ${other}`),
+  ...(goal.criteria ?? []).map(
+    (criterion) =>
+      `metric: ${criterion.metric}${criterion.unit ? ` : ${criterion.unit}` : ""} ${
+        criterion.comparator
+      } ${criterion.target ?? "before"}${
+        criterion.baseline !== undefined ? ` baseline ${criterion.baseline}` : ""
+      }`
+  ),
+];
+
+const snapshot = (value: Comparable): Snapshots => {
+  const model = toModel(value);
+  const index = createReferenceIndex(model);
+  const result: Snapshots = {
+    systems: new Map(),
+    digitalTwins: new Map(),
+    parts: new Map(),
+    ports: new Map(),
+    connections: new Map(),
+    goals: new Map(),
+    allocations: new Map(),
+  };
+
+  model.systems.forEach((system) => {
+    result.systems.set(system.name, []);
+    system.digital_twins.forEach((dt) => {
+      result.digitalTwins.set(
+        `${system.name}.${dt.name}`,
+        dt.ports.map((port) => `port ${port.name}`)
+      );
+    });
+    flattenParts(system.original_twins).forEach(({ part, path }) => {
+      result.parts.set(`${system.name}.${path}`, [
+        ...part.ports.map((port) => `port ${port.name}`),
+        ...(part.parts ?? []).map((nested) => `part ${nested.name}`),
+      ]);
+    });
+    system.connections.forEach((connection) => {
+      // Compare resolved endpoints so `DT.p` and `System.DT.p` count as the same connection.
+      const from = index.resolvePort(system.name, connection.from)?.path ?? connection.from;
+      const to = index.resolvePort(system.name, connection.to)?.path ?? connection.to;
+      const facts = connection.name ? [`name: ${connection.name}`] : [];
+      result.connections.set(`${from}->${to}`, facts);
+    });
+  });
+  (model.connections ?? []).forEach((connection) => {
+    const from = index.resolveQualifiedPort(connection.from)?.path ?? connection.from;
+    const to = index.resolveQualifiedPort(connection.to)?.path ?? connection.to;
+    result.connections.set(`${from}->${to}`, connection.name ? [`name: ${connection.name}`] : []);
+  });
+  index.ports.forEach((port) => result.ports.set(port.path, portFacts(port)));
+  model.goals.forEach((goal) => result.goals.set(goal.name, goalFacts(goal)));
+  model.allocations.forEach((allocation) => {
+    const target = index.resolveElement(allocation.target)?.path ?? allocation.target;
+    result.allocations.set(`${allocation.goal}->${target}`, []);
+  });
+
+  return result;
+};
+
+const describeChanges = (before: string[], after: string[]) => [
+  ...before.filter((fact) => !after.includes(fact)).map((fact) => `- ${fact}`),
+  ...after.filter((fact) => !before.includes(fact)).map((fact) => `+ ${fact}`),
+];
+
+const diffSnapshot = (kind: DiffElementKind, before: Snapshot, after: Snapshot): DiffEntry[] => {
+  const entries: DiffEntry[] = [];
+  before.forEach((facts, key) => {
+    const next = after.get(key);
+    if (!next) {
+      entries.push({ kind, key, status: "removed" });
+      return;
+    }
+    const changes = describeChanges(facts, next);
+    if (changes.length > 0) {
+      entries.push({ kind, key, status: "changed", changes });
+    }
+  });
+  after.forEach((_, key) => {
+    if (!before.has(key)) {
+      entries.push({ kind, key, status: "added" });
+    }
+  });
+  return entries;
+};
+
+/**
+ * Marks a twin system as changed when anything inside it was added, removed or
+ * changed. A connection touches the systems of both of its ends.
+ */
+const propagateToSystems = (diff: DarTwinDiff, before: Snapshots, after: Snapshots) => {
+  const touched = new Set(
+    [...diff.digitalTwins, ...diff.parts, ...diff.ports, ...diff.connections].flatMap((entry) =>
+      entry.key.split("->").map((path) => path.split(".")[0])
+    )
+  );
+  touched.forEach((system) => {
+    if (before.systems.has(system) && after.systems.has(system)) {
+      diff.systems.push({
+        kind: "system",
+        key: system,
+        status: "changed",
+        changes: ["contents changed"],
+      });
+    }
+  });
+};
+
+/**
+ * Structural diff between two models or DarTrans slices. Only differences are
+ * listed; anything absent from the result is unchanged.
+ */
+export function diffDarTwin(before: Comparable, after: Comparable): DarTwinDiff {
+  const beforeSnapshot = snapshot(before);
+  const afterSnapshot = snapshot(after);
+  const compare = (group: keyof Snapshots, kind: DiffElementKind) =>
+    diffSnapshot(kind, beforeSnapshot[group], afterSnapshot[group]);
+  const diff: DarTwinDiff = {
+    systems: compare("systems", "system"),
+    digitalTwins: compare("digitalTwins", "digitalTwin"),
+    parts: compare("parts", "part"),
+    ports: compare("ports", "port"),
+    connections: compare("connections", "connection"),
+    goals: compare("goals", "goal"),
+    allocations: compare("allocations", "allocation"),
+  };
+  propagateToSystems(diff, beforeSnapshot, afterSnapshot);
+  return diff;
+}
+
+/** Diff between the `before` and `after` configurations of the model's DarTrans. */
+export function diffDarTrans(model: DarTwinModel): DarTwinDiff | undefined {
+  const before = darTransConfiguration(model, "before");
+  const after = darTransConfiguration(model, "after");
+  return before && after ? diffDarTwin(before, after) : undefined;
+}
+
+/** Status lookup by element kind and key, as used to colour diagram elements. */
+export const diffStatusLookup = (diff: DarTwinDiff) => {
+  const statuses = new Map<string, DiffStatus>();
+  Object.values(diff).forEach((entries: DiffEntry[]) => {
+    entries.forEach((entry) => statuses.set(`${entry.kind}:${entry.key}`, entry.status));
+  });
+  return (kind: DiffElementKind, key: string | undefined): DiffStatus =>
+    (key ? statuses.get(`${kind}:${key}`) : undefined) ?? "unchanged";
+};
@@ -0,0 +1,100 @@
+import type {
+  Allocation,
+  Connection,
+  DarTwinModel,
+  Goal,
+  OriginalTwin,
+  PartialDarTwinSlice,
+  Port,
+  TwinSystem,
+} from "../types/dartwin";
+
+export type DarTransSide = "before" | "after";
+
+const unionBy = <T>(items: T[], keyOf: (item: T) => string, merge: (a: T, b: T) => T) => {
+  const merged = new Map<string, T>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    const existing = merged.get(key);
+    merged.set(key, existing ? merge(existing, item) : item);
+  });
+  return [...merged.values()];
+};
+
+const unique = <T>(items: T[], keyOf: (item: T) => string) => unionBy(items, keyOf, (a) => a);
+
+/** Ports with the same name are one port; a later direction or kind wins. */
+const mergePorts = (ports: Port[]) =>
+  unionBy(ports, (port) => port.name, (a, b) => ({ ...a, ...b }));
+
+const mergePortOwners = <T extends { name: string; ports: Port[] }>(owners: T[]) =>
+  unionBy(owners, (owner) => owner.name, (a, b) => ({
+    ...a,
+    ports: mergePorts([...a.ports, ...b.ports]),
+  }));
+
+/** Parts merge like digital twins, and then so do the parts nested in them. */
+const mergeParts = (parts: OriginalTwin[]): OriginalTwin[] =>
+  unionBy(parts, (part) => part.name, (a, b) => ({
+    ...a,
+    ports: mergePorts([...a.ports, ...b.ports]),
+    parts: [...(a.parts ?? []), ...(b.parts ?? [])],
+  })).map(({ parts: nested, ...part }) =>
+    nested && nested.length > 0 ? { ...part, parts: mergeParts(nested) } : part
+  );
+
+export const connectionKey = (connection: Connection) =>
+  `${connection.from}->${connection.to}${connection.name ? `:${connection.name}` : ""}`;
+
+export const allocationKey = (allocation: Allocation) => `${allocation.goal}->${allocation.target}`;
+
+const mergeSystems = (systems: TwinSystem[]) =>
+  unionBy(systems, (system) => system.name, (a, b) => ({
+    name: a.name,
+    digital_twins: mergePortOwners([...a.digital_twins, ...b.digital_twins]),
+    original_twins: mergeParts([...a.original_twins, ...b.original_twins]),
+    connections: unique([...a.connections, ...b.connections], connectionKey),
+  }));
+
+/**
+ * Overlays slices the way DarTrans sections combine: elements with the same
+ * name are merged, so a system declared in `#core` and again in `#before`
+ * ends up as one system holding both sets of children.
+ */
+export const mergeSlices = (...slices: Array<PartialDarTwinSlice | undefined>) => {
+  const present = slices.filter((slice): slice is PartialDarTwinSlice => slice !== undefined);
+  return {
+    systems: mergeSystems(present.flatMap((slice) => slice.systems ?? [])),
+    connections: unique(present.flatMap((slice) => slice.connections ?? []), connectionKey),
+    goals: unionBy<Goal>(
+      present.flatMap((slice) => slice.goals ?? []),
+      (goal) => goal.name,
+      (a, b) => {
+        const conflicts = [...new Set([...(a.conflicts_with ?? []), ...(b.conflicts_with ?? [])])];
+        return { ...a, ...b, ...(conflicts.length > 0 ? { conflicts_with: conflicts } : {}) };
+      }
+    ),
+    allocations: unique(present.flatMap((slice) => slice.allocations ?? []), allocationKey),
+  };
+};
+
+export const sliceToModel = (name: string, slice: PartialDarTwinSlice): DarTwinModel => ({
+  type: "DarTwin",
+  name,
+  systems: slice.systems ?? [],
+  ...(slice.connections && slice.connections.length > 0 ? { connections: slice.connections } : {}),
+  goals: slice.goals ?? [],
+  allocations: slice.allocations ?? [],
+});
+
+/** The configuration on one side of a transformation: `#core` plus that side's slice. */
+export const darTransConfiguration = (
+  model: DarTwinModel,
+  side: DarTransSide
+): DarTwinModel | undefined => {
+  const { dartrans } = model;
+  if (!dartrans) {
+    return undefined;
+  }
+  return sliceToModel(model.name, mergeSlices(dartrans.core, dartrans[side]));
+};
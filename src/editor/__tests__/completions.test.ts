@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import {
+  detectCompletionSlot,
+  enclosingTwinSystem,
+  getCompletionCandidates,
+} from "../completions";
+
+const spec = `#dartwin Farm {
+  #twinsystem Strawberry {
+    #digitaltwin StrawberryDT { port input; }
+    part Cultivation { port MultiSensor; }
+    connect 
+  }
+  #twinsystem Tomato {
+    #digitaltwin TomatoDT { port input; }
+  }
+  #goal increase_yield;
+  allocate increase_yield to Strawberry.StrawberryDT;
+}`;
+
+describe("completions", () => {
+  it("detects which reference is being typed", () => {
+    expect(detectCompletionSlot("    connect ")).toBe("connect-port");
+    expect(detectCompletionSlot("    connect Strawberry.Cult")).toBe("connect-port");
+    expect(detectCompletionSlot("    connect DT.p to ")).toBe("connect-port");
+    expect(detectCompletionSlot("  allocate ")).toBe("allocate-goal");
+    expect(detectCompletionSlot("  allocate increase_yield to Str")).toBe("allocate-target");
+    expect(detectCompletionSlot("  #goal ")).toBeUndefined();
+    expect(detectCompletionSlot("  #goal optimize refines ")).toBe("related-goal");
+    expect(detectCompletionSlot("  #goal a refines b conflicts with c, ")).toBe("related-goal");
+    expect(detectCompletionSlot("  #goal a refines")).toBeUndefined();
+  });
+
+  it("finds the twin system enclosing the cursor", () => {
+    expect(enclosingTwinSystem(spec, spec.indexOf("connect "))).toBe("Strawberry");
+    expect(enclosingTwinSystem(spec, spec.indexOf("TomatoDT"))).toBe("Tomato");
+    expect(enclosingTwinSystem(spec, spec.indexOf("allocate"))).toBeUndefined();
+  });
+
+  it("offers the port paths the adapter resolves, local system first", () => {
+    const model = parseDarTwin(spec);
+    const candidates = getCompletionCandidates(model, "connect-port", "Strawberry");
+    expect(candidates.map((candidate) => [candidate.label, candidate.local])).toEqual([
+      ["StrawberryDT.input", true],
+      ["Strawberry.StrawberryDT.input", true],
+      ["Strawberry.Cultivation.MultiSensor", true],
+      ["TomatoDT.input", false],
+      ["Tomato.TomatoDT.input", false],
+    ]);
+  });
+
+  it("offers only full port paths between twin systems", () => {
+    const model = parseDarTwin(spec);
+    expect(getCompletionCandidates(model, "connect-port").map((c) => c.label)).toEqual([
+      "Strawberry.StrawberryDT.input",
+      "Strawberry.Cultivation.MultiSensor",
+      "Tomato.TomatoDT.input",
+    ]);
+  });
+
+  it("offers goals and every named element as allocation targets", () => {
+    const model = parseDarTwin(spec);
+    expect(getCompletionCandidates(model, "allocate-goal").map((c) => c.label)).toEqual([
+      "increase_yield",
+    ]);
+    expect(
+      getCompletionCandidates(model, "allocate-target").map((c) => [c.label, c.detail])
+    ).toEqual([
+      ["Strawberry", "twin system"],
+      ["Strawberry.StrawberryDT", "digital twin in Strawberry"],
+      ["Strawberry.StrawberryDT.input", "port in Strawberry"],
+      ["Strawberry.Cultivation", "part in Strawberry"],
+      ["Strawberry.Cultivation.MultiSensor", "port in Strawberry"],
+      ["Tomato", "twin system"],
+      ["Tomato.TomatoDT", "digital twin in Tomato"],
+      ["Tomato.TomatoDT.input", "port in Tomato"],
+    ]);
+  });
+});
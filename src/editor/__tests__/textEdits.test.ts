@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+
+import { darTwinToReactFlow } from "../../adapters/darTwinToReactFlow";
+import { parseDarTwin, parseDarTwinDocument, type ParseResult } from "../../parser/parseDarTwin";
+import {
+  type TextInsertion,
+  allocationInsertion,
+  applyInsertion,
+  connectionInsertion,
+  insertionForDiagramConnection,
+} from "../textEdits";
+
+const spec = `#dartwin Farm {
+  #twinsystem Strawberry {
+    connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input;
+
+    #digitaltwin StrawberryDT {
+      port input;
+      port output;
+    }
+
+    part Cultivation {
+      port MultiSensor;
+      port Valve;
+    }
+  }
+
+  #twinsystem Empty {
+    #digitaltwin EmptyDT { port p; port q; }
+  }
+
+  #goal increase_yield;
+  #goal save_water;
+
+  allocate increase_yield to Strawberry.StrawberryDT;
+}`;
+
+const insert = (edit: (text: string, result: ParseResult) => TextInsertion | undefined) => {
+  const insertion = edit(spec, parseDarTwinDocument(spec));
+  return insertion ? applyInsertion(spec, insertion) : undefined;
+};
+
+describe("textEdits", () => {
+  it("adds a connect statement after the system's last connection", () => {
+    const text = insert((text, result) =>
+      connectionInsertion(
+        text,
+        result,
+        "Strawberry.StrawberryDT.output",
+        "Strawberry.Cultivation.Valve"
+      )
+    );
+    expect(text).toContain(
+      `    connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input;
+    connect StrawberryDT.output to Strawberry.Cultivation.Valve;
+`
+    );
+    expect(parseDarTwin(text ?? "").systems[0].connections).toHaveLength(2);
+  });
+
+  it("adds the first connect statement before the closing brace", () => {
+    const text = insert((text, result) =>
+      connectionInsertion(text, result, "Empty.EmptyDT.p", "Empty.EmptyDT.q")
+    );
+    expect(text).toContain(
+      `    #digitaltwin EmptyDT { port p; port q; }
+    connect EmptyDT.p to EmptyDT.q;
+  }`
+    );
+  });
+
+  it("adds connections across systems to the #dartwin body", () => {
+    const text = insert((text, result) =>
+      connectionInsertion(text, result, "Strawberry.StrawberryDT.output", "Empty.EmptyDT.p")
+    );
+    expect(text).toContain(
+      `    #digitaltwin EmptyDT { port p; port q; }
+  }
+  connect Strawberry.StrawberryDT.output to Empty.EmptyDT.p;
+`
+    );
+    const result = parseDarTwinDocument(text ?? "");
+    expect(result.model.connections).toEqual([
+      { from: "Strawberry.StrawberryDT.output", to: "Empty.EmptyDT.p" },
+    ]);
+    expect(
+      connectionInsertion(text ?? "", result, "Strawberry.StrawberryDT.output", "Empty.EmptyDT.p")
+    ).toBeUndefined();
+  });
+
+  it("refuses duplicate connections and self loops", () => {
+    const result = parseDarTwinDocument(spec);
+    expect(
+      connectionInsertion(
+        spec,
+        result,
+        "Strawberry.Cultivation.MultiSensor",
+        "Strawberry.StrawberryDT.input"
+      )
+    ).toBeUndefined();
+    expect(connectionInsertion(spec, result, "Empty.EmptyDT.p", "Empty.EmptyDT.p")).toBeUndefined();
+  });
+
+  it("adds allocate statements after the last allocation", () => {
+    const text = insert((text, result) =>
+      allocationInsertion(text, result, "save_water", "Strawberry.StrawberryDT")
+    );
+    expect(text).toContain(
+      `  allocate increase_yield to Strawberry.StrawberryDT;
+  allocate save_water to Strawberry.StrawberryDT;
+}`
+    );
+    const result = parseDarTwinDocument(spec);
+    expect(allocationInsertion(spec, result, "increase_yield", "StrawberryDT")).toBeUndefined();
+  });
+
+  it("keeps statements inside blocks that close on the sibling's line", () => {
+    const oneLine = `#dartwin Farm {
+  #twinsystem A { #digitaltwin D { port p; port q; port r; } connect D.p to D.q; }
+  #goal g; allocate g to A; }`;
+    const result = parseDarTwinDocument(oneLine);
+
+    const connected = applyInsertion(
+      oneLine,
+      connectionInsertion(oneLine, result, "A.D.q", "A.D.r")!
+    );
+    expect(connected).toContain("connect D.p to D.q; \n    connect D.q to D.r;\n  }\n  #goal g;");
+    expect(parseDarTwin(connected).systems[0].connections).toHaveLength(2);
+
+    const allocated = applyInsertion(oneLine, allocationInsertion(oneLine, result, "g", "A.D")!);
+    const reparsed = parseDarTwinDocument(allocated);
+    expect(reparsed.diagnostics).toEqual([]);
+    expect(reparsed.model.allocations).toEqual([
+      { goal: "g", target: "A" },
+      { goal: "g", target: "A.D" },
+    ]);
+  });
+
+  it("maps dragged diagram connections to statements", () => {
+    const result = parseDarTwinDocument(spec);
+    const graph = darTwinToReactFlow(result.model);
+    const insertion = insertionForDiagramConnection(
+      spec,
+      result,
+      graph,
+      "goal::Farm::save_water",
+      "dt::Farm::Empty::EmptyDT"
+    );
+    expect(insertion?.text.trim()).toBe("allocate save_water to Empty.EmptyDT;");
+    expect(
+      insertionForDiagramConnection(
+        spec,
+        result,
+        graph,
+        "goal::Farm::save_water",
+        "ts::Farm::Empty"
+      )?.text.trim()
+    ).toBe("allocate save_water to Empty;");
+    expect(
+      insertionForDiagramConnection(
+        spec,
+        result,
+        graph,
+        "port::Farm::Strawberry::Cultivation::Valve",
+        "goal::Farm::save_water"
+      )?.text.trim()
+    ).toBe("allocate save_water to Strawberry.Cultivation.Valve;");
+    expect(
+      insertionForDiagramConnection(
+        spec,
+        result,
+        graph,
+        "goal::Farm::save_water",
+        "goal::Farm::increase_yield"
+      )
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,167 @@
+import type { Monaco } from "@monaco-editor/react";
+
+import { createReferenceIndex, flattenParts, type ElementKind } from "../model/references";
+import { tokenize } from "../parser/lexer";
+import { parseDarTwin } from "../parser/parseDarTwin";
+import type { DarTwinModel, Port } from "../types/dartwin";
+
+export type CompletionSlot = "connect-port" | "allocate-goal" | "allocate-target" | "related-goal";
+
+export interface CompletionCandidate {
+  label: string;
+  detail: string;
+  slot: CompletionSlot;
+  /** Candidates from the twin system enclosing the cursor sort first. */
+  local: boolean;
+}
+
+const SLOT_PATTERNS: Array<[CompletionSlot, RegExp]> = [
+  ["connect-port", /\bconnect\s+(?:[\w.-]+\s+to\s+)?[\w.-]*$/i],
+  ["allocate-target", /\ballocate\s+[\w-]+\s+to\s+[\w.-]*$/i],
+  ["allocate-goal", /\ballocate\s+[\w-]*$/i],
+  [
+    "related-goal",
+    /#goal\s+[\w-]+\s+(?:refines\s+[\w-]+\s+)?(?:refines\s+|conflicts\s+with\s+(?:[\w-]+\s*,\s*)*)[\w-]*$/i,
+  ],
+];
+
+/** Works out which reference the user is typing from the text before the cursor. */
+export const detectCompletionSlot = (linePrefix: string): CompletionSlot | undefined =>
+  SLOT_PATTERNS.find(([, pattern]) => pattern.test(linePrefix))?.[0];
+
+/** Name of the `#twinsystem` block that contains `offset`, if any. */
+export const enclosingTwinSystem = (text: string, offset: number): string | undefined => {
+  const { tokens } = tokenize(text.slice(0, offset));
+  const stack: Array<string | undefined> = [];
+  let pendingSystem: string | undefined;
+  tokens.forEach((token, index) => {
+    if (token.kind === "lbrace") {
+      stack.push(pendingSystem);
+      pendingSystem = undefined;
+    } else if (token.kind === "rbrace") {
+      stack.pop();
+    } else if (token.kind === "keyword" && token.value === "#twinsystem") {
+      pendingSystem = tokens[index + 1]?.kind === "identifier" ? tokens[index + 1].text : undefined;
+    }
+  });
+  return [...stack].reverse().find((name) => name !== undefined);
+};
+
+const portDetail = (port: Port, owner: string) =>
+  `${port.direction ? `${port.direction} ` : ""}port of ${owner}`;
+
+/**
+ * Port paths for a `connect` in `system`; outside any twin system, where
+ * connections join systems, only fully qualified paths resolve.
+ */
+const portCandidates = (model: DarTwinModel, system?: string): CompletionCandidate[] =>
+  model.systems.flatMap((twinSystem) => {
+    const local = twinSystem.name === system;
+    const dtPorts = twinSystem.digital_twins.flatMap((dt) =>
+      dt.ports.flatMap((port) => {
+        const qualified = {
+          label: `${twinSystem.name}.${dt.name}.${port.name}`,
+          detail: portDetail(port, `digital twin ${dt.name}`),
+          slot: "connect-port" as const,
+          local,
+        };
+        return system === undefined
+          ? [qualified]
+          : [{ ...qualified, label: `${dt.name}.${port.name}` }, qualified];
+      })
+    );
+    const partPorts = flattenParts(twinSystem.original_twins).flatMap(({ part, path }) =>
+      part.ports.map((port) => ({
+        label: `${twinSystem.name}.${path}.${port.name}`,
+        detail: portDetail(port, `part ${path}`),
+        slot: "connect-port" as const,
+        local,
+      }))
+    );
+    return [...dtPorts, ...partPorts];
+  });
+
+const goalCandidates = (model: DarTwinModel, slot: CompletionSlot): CompletionCandidate[] =>
+  model.goals.map((goal) => ({
+    label: goal.name,
+    detail: goal.doc ?? "goal",
+    slot,
+    local: false,
+  }));
+
+const ELEMENT_DETAILS: Record<ElementKind, string> = {
+  system: "twin system",
+  dt: "digital twin",
+  part: "part",
+  port: "port",
+};
+
+/** Goals can be allocated to any twin system, digital twin, part or port, by its full path. */
+const allocationTargetCandidates = (model: DarTwinModel): CompletionCandidate[] =>
+  createReferenceIndex(model).elements.map((element) => ({
+    label: element.path,
+    detail:
+      element.kind === "system"
+        ? ELEMENT_DETAILS.system
+        : `${ELEMENT_DETAILS[element.kind]} in ${element.system}`,
+    slot: "allocate-target" as const,
+    local: false,
+  }));
+
+export const getCompletionCandidates = (
+  model: DarTwinModel,
+  slot: CompletionSlot,
+  system?: string
+): CompletionCandidate[] => {
+  switch (slot) {
+    case "connect-port":
+      return portCandidates(model, system);
+    case "allocate-goal":
+    case "related-goal":
+      return goalCandidates(model, slot);
+    default:
+      return allocationTargetCandidates(model);
+  }
+};
+
+/** Hooks `getCompletionCandidates` into Monaco for the given language id. */
+export const registerDarTwinCompletions = (monaco: Monaco, languageId: string) =>
+  monaco.languages.registerCompletionItemProvider(languageId, {
+    triggerCharacters: [" ", ".", ","],
+    provideCompletionItems: (textModel, position) => {
+      const linePrefix = textModel
+        .getLineContent(position.lineNumber)
+        .slice(0, position.column - 1);
+      const slot = detectCompletionSlot(linePrefix);
+      if (!slot) {
+        return { suggestions: [] };
+      }
+
+      const text = textModel.getValue();
+      const offset = textModel.getOffsetAt(position);
+      const model = parseDarTwin(text);
+      const system = enclosingTwinSystem(text, offset);
+      const word = textModel.getWordUntilPosition(position);
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+      const kind =
+        slot === "allocate-goal" || slot === "related-goal"
+          ? monaco.languages.CompletionItemKind.Constant
+          : monaco.languages.CompletionItemKind.Reference;
+
+      return {
+        suggestions: getCompletionCandidates(model, slot, system).map((candidate) => ({
+          label: candidate.label,
+          detail: candidate.detail,
+          kind,
+          insertText: candidate.label,
+          sortText: `${candidate.local ? "0" : "1"}${candidate.label}`,
+          range,
+        })),
+      };
+    },
+  });
@@ -0,0 +1,99 @@
+import type { Monaco } from "@monaco-editor/react";
+
+import { KEYWORDS } from "../parser/lexer";
+import { registerDarTwinCompletions } from "./completions";
+
+export const DARTWIN_LANGUAGE_ID = "dartwin";
+export const DARTWIN_THEME_ID = "dartwin-light";
+
+type LanguageConfiguration = Parameters<Monaco["languages"]["setLanguageConfiguration"]>[1];
+type MonarchLanguage = Parameters<Monaco["languages"]["setMonarchTokensProvider"]>[1];
+
+const directives = [...KEYWORDS].filter((keyword) => keyword.startsWith("#"));
+const statementKeywords = [...KEYWORDS].filter((keyword) => !keyword.startsWith("#"));
+
+export const darTwinLanguageConfiguration: LanguageConfiguration = {
+  comments: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+  },
+  brackets: [["{", "}"]],
+  autoClosingPairs: [
+    { open: "{", close: "}" },
+    { open: "/*", close: " */", notIn: ["string", "comment"] },
+  ],
+  surroundingPairs: [{ open: "{", close: "}" }],
+  folding: {
+    markers: {
+      start: /^\s*\/\/\s*#?region\b/,
+      end: /^\s*\/\/\s*#?endregion\b/,
+    },
+  },
+  wordPattern: /#?[\w-]+(?:\.[\w-]+)*/,
+  indentationRules: {
+    increaseIndentPattern: /\{[^}"']*$/,
+    decreaseIndentPattern: /^\s*\}/,
+  },
+};
+
+export const darTwinMonarchLanguage: MonarchLanguage = {
+  ignoreCase: true,
+  defaultToken: "",
+  directives,
+  keywords: statementKeywords,
+  tokenizer: {
+    root: [
+      [/#[\w-]+/, { cases: { "@directives": "keyword.directive", "@default": "invalid" } }],
+      [/-?\d+(?:\.\d+)?(?![\w.-])/, "number"],
+      [/[\w-]+(?:\.[\w-]+)+/, "type.identifier"],
+      [/[\w-]+/, { cases: { "@keywords": "keyword", "@default": "identifier" } }],
+      { include: "@whitespace" },
+      [/[{}]/, "@brackets"],
+      [/;/, "delimiter"],
+      [/[<>]=?|=/, "operator"],
+    ],
+    whitespace: [
+      [/\s+/, "white"],
+      [/\/\*/, "comment", "@comment"],
+      [/\/\/\s*name\s*:.*$/, "comment.doc"],
+      [/\/\/.*$/, "comment"],
+    ],
+    comment: [
+      [/[^/*]+/, "comment"],
+      [/\*\//, "comment", "@pop"],
+      [/[/*]/, "comment"],
+    ],
+  },
+};
+
+/**
+ * Registers the DarTwin DSL with Monaco: tokenizer, bracket and comment
+ * configuration, reference completions and a light theme that tells
+ * directives apart from statements. Safe to call more than once.
+ */
+export const registerDarTwinLanguage = (monaco: Monaco) => {
+  const registered = monaco.languages
+    .getLanguages()
+    .some((language) => language.id === DARTWIN_LANGUAGE_ID);
+  if (registered) {
+    return;
+  }
+
+  monaco.languages.register({ id: DARTWIN_LANGUAGE_ID, extensions: [".dartwin"] });
+  monaco.languages.setLanguageConfiguration(DARTWIN_LANGUAGE_ID, darTwinLanguageConfiguration);
+  monaco.languages.setMonarchTokensProvider(DARTWIN_LANGUAGE_ID, darTwinMonarchLanguage);
+  registerDarTwinCompletions(monaco, DARTWIN_LANGUAGE_ID);
+  monaco.editor.defineTheme(DARTWIN_THEME_ID, {
+    base: "vs",
+    inherit: true,
+    rules: [
+      { token: "keyword.directive", foreground: "2f5597", fontStyle: "bold" },
+      { token: "keyword", foreground: "7b3294" },
+      { token: "type.identifier", foreground: "1b7837" },
+      { token: "number", foreground: "b26a00" },
+      { token: "comment.doc", foreground: "8c6d1f", fontStyle: "italic" },
+      { token: "comment", foreground: "6a737d", fontStyle: "italic" },
+    ],
+    colors: {},
+  });
+};
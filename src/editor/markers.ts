@@ -0,0 +1,33 @@
+import type { Monaco } from "@monaco-editor/react";
+
+import type { Diagnostic, DiagnosticSeverity } from "../types/diagnostics";
+
+export const MARKER_OWNER = "dartwin";
+
+type MarkerData = Parameters<Monaco["editor"]["setModelMarkers"]>[2][number];
+
+const toMarkerSeverity = (monaco: Monaco, severity: DiagnosticSeverity) => {
+  switch (severity) {
+    case "error":
+      return monaco.MarkerSeverity.Error;
+    case "warning":
+      return monaco.MarkerSeverity.Warning;
+    default:
+      return monaco.MarkerSeverity.Info;
+  }
+};
+
+export const toMarkers = (monaco: Monaco, diagnostics: Diagnostic[]): MarkerData[] =>
+  diagnostics.map((diagnostic) => ({
+    severity: toMarkerSeverity(monaco, diagnostic.severity),
+    message: diagnostic.message,
+    startLineNumber: diagnostic.range.start.line,
+    startColumn: diagnostic.range.start.column,
+    endLineNumber: diagnostic.range.end.line,
+    // Monaco renders an empty range as nothing, so widen zero-length ranges by one column.
+    endColumn:
+      diagnostic.range.end.line === diagnostic.range.start.line &&
+      diagnostic.range.end.column <= diagnostic.range.start.column
+        ? diagnostic.range.start.column + 1
+        : diagnostic.range.end.column,
+  }));
@@ -0,0 +1,202 @@
+import { createReferenceIndex, type PortReference } from "../model/references";
+import type { ParseResult } from "../parser/parseDarTwin";
+import { createSourceLocator } from "../parser/sourceLocator";
+import { sourceKeys, type SourceMap } from "../parser/sourceMap";
+import type { DarTwinGraph } from "../types/reactflow";
+
+const INDENT = "  ";
+
+export interface TextInsertion {
+  offset: number;
+  text: string;
+}
+
+export const applyInsertion = (text: string, insertion: TextInsertion) =>
+  `${text.slice(0, insertion.offset)}${insertion.text}${text.slice(insertion.offset)}`;
+
+const lineIndent = (text: string, offset: number) => {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? "";
+};
+
+const lastRange = (sourceMap: SourceMap, key: string) => sourceMap[key]?.slice(-1)[0];
+
+/**
+ * Places `statement` on its own line inside a block: right after the last
+ * sibling statement of the same kind if there is one and the block does not
+ * close on its line, otherwise just before the block's closing brace.
+ */
+const insertStatement = (
+  text: string,
+  sourceMap: SourceMap,
+  blockKey: string,
+  siblingKeys: string[],
+  statement: string
+): TextInsertion | undefined => {
+  const locator = createSourceLocator(text);
+  const blockRange = lastRange(sourceMap, blockKey);
+  if (!blockRange) {
+    return undefined;
+  }
+
+  const braceOffset = locator.offset(blockRange.end) - 1;
+  const sibling = siblingKeys
+    .map((key) => lastRange(sourceMap, key))
+    .filter((range) => range !== undefined)
+    .pop();
+  if (sibling) {
+    const siblingEnd = locator.offset(sibling.end);
+    const lineEnd = text.indexOf("\n", siblingEnd);
+    const offset = lineEnd === -1 ? text.length : lineEnd;
+    // A closing brace on the sibling's line ends the block; the statement goes before it.
+    if (offset <= braceOffset) {
+      return { offset, text: `\n${lineIndent(text, siblingEnd)}${statement}` };
+    }
+  }
+
+  const braceIndent = lineIndent(text, braceOffset);
+  const lineStart = text.lastIndexOf("\n", braceOffset - 1) + 1;
+  if (text.slice(lineStart, braceOffset).trim() === "") {
+    return { offset: lineStart, text: `${braceIndent}${INDENT}${statement}\n` };
+  }
+  return {
+    offset: braceOffset,
+    text: `\n${braceIndent}${INDENT}${statement}\n${braceIndent}`,
+  };
+};
+
+/** Matches the sample's style: `DT.port` for digital twins, `System.Part.port` for parts. */
+const scopedPortPath = (port: PortReference) =>
+  port.ownerKind === "dt" ? `${port.owner}.${port.port}` : port.path;
+
+const systemOf = (path: string) => path.split(".")[0] ?? "";
+
+/**
+ * Connections between twin systems go into the `#dartwin` body, after its
+ * last such connection or else after the last twin system.
+ */
+const crossSystemInsertion = (
+  text: string,
+  { model, sourceMap }: Pick<ParseResult, "model" | "sourceMap">,
+  from: PortReference,
+  to: PortReference
+): TextInsertion | undefined => {
+  const index = createReferenceIndex(model);
+  const connections = model.connections ?? [];
+  const exists = connections.some(
+    (connection) =>
+      index.resolveQualifiedPort(connection.from)?.path === from.path &&
+      index.resolveQualifiedPort(connection.to)?.path === to.path
+  );
+  if (exists) {
+    return undefined;
+  }
+
+  const siblingKeys =
+    connections.length > 0
+      ? connections.map((_, connectionIndex) => sourceKeys.dartwinConnection(connectionIndex))
+      : model.systems.map((candidate) => sourceKeys.systemBlock(candidate.name));
+  return insertStatement(
+    text,
+    sourceMap,
+    sourceKeys.dartwinBlock(),
+    siblingKeys,
+    `connect ${from.path} to ${to.path};`
+  );
+};
+
+export const connectionInsertion = (
+  text: string,
+  { model, sourceMap }: ParseResult,
+  fromPath: string,
+  toPath: string
+): TextInsertion | undefined => {
+  const index = createReferenceIndex(model);
+  const system = systemOf(fromPath);
+  const from = index.resolvePort(system, fromPath);
+  const to = index.resolvePort(systemOf(toPath), toPath);
+  if (!from || !to || from.path === to.path) {
+    return undefined;
+  }
+  if (from.system !== to.system) {
+    return crossSystemInsertion(text, { model, sourceMap }, from, to);
+  }
+
+  const owner = model.systems.find((candidate) => candidate.name === system);
+  const connections = owner?.connections ?? [];
+  const exists = connections.some((connection) => {
+    const ends = [connection.from, connection.to].map(
+      (reference) => index.resolvePort(system, reference)?.path
+    );
+    return ends[0] === from.path && ends[1] === to.path;
+  });
+  if (exists) {
+    return undefined;
+  }
+
+  return insertStatement(
+    text,
+    sourceMap,
+    sourceKeys.systemBlock(system),
+    connections.map((_, connectionIndex) => sourceKeys.connection(system, connectionIndex)),
+    `connect ${scopedPortPath(from)} to ${scopedPortPath(to)};`
+  );
+};
+
+export const allocationInsertion = (
+  text: string,
+  { model, sourceMap }: ParseResult,
+  goal: string,
+  targetPath: string
+): TextInsertion | undefined => {
+  const index = createReferenceIndex(model);
+  const target = index.resolveElement(targetPath);
+  if (!target || !model.goals.some((candidate) => candidate.name === goal)) {
+    return undefined;
+  }
+  const exists = model.allocations.some(
+    (allocation) =>
+      allocation.goal === goal && index.resolveElement(allocation.target)?.path === target.path
+  );
+  if (exists) {
+    return undefined;
+  }
+
+  return insertStatement(
+    text,
+    sourceMap,
+    sourceKeys.dartwinBlock(),
+    model.allocations.map((_, allocationIndex) => sourceKeys.allocation(allocationIndex)),
+    `allocate ${goal} to ${target.path};`
+  );
+};
+
+/**
+ * Translates a connection dragged between two diagram nodes into the DSL
+ * statement it stands for: port-to-port becomes `connect`, and any twin
+ * system, digital twin, part or port to a goal (either way round) becomes
+ * `allocate`.
+ */
+export const insertionForDiagramConnection = (
+  text: string,
+  parseResult: ParseResult,
+  graph: DarTwinGraph,
+  sourceId: string,
+  targetId: string
+): TextInsertion | undefined => {
+  const source = graph.nodes.find((node) => node.id === sourceId);
+  const target = graph.nodes.find((node) => node.id === targetId);
+  if (!source?.ref || !target?.ref) {
+    return undefined;
+  }
+  if (source.type === "port" && target.type === "port") {
+    return connectionInsertion(text, parseResult, source.ref, target.ref);
+  }
+  if (target.type === "goal" && source.type !== "goal") {
+    return allocationInsertion(text, parseResult, target.ref, source.ref);
+  }
+  if (source.type === "goal" && target.type !== "goal") {
+    return allocationInsertion(text, parseResult, source.ref, target.ref);
+  }
+  return undefined;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { annotateEvaluation, darTwinToReactFlow } from "../../adapters/darTwinToReactFlow";
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { evaluateGoals } from "../evaluateGoals";
+
+const model = parseDarTwin(`#dartwin Farm {
+  #goal increase_yield;
+  #goal save_water refines increase_yield {
+    metric water_consumption : l/day < before;
+    metric leaks = 0;
+  }
+  #goal grow_fast refines increase_yield { metric yield >= 4.5; }
+  #goal use_daylight { metric lux > before baseline 300; }
+  #goal undocumented;
+}`);
+
+const measurements = (after: Record<string, number>, before: Record<string, number> = {}) => ({
+  after: new Map(Object.entries(after)),
+  before: new Map(Object.entries(before)),
+});
+
+const statuses = (evaluations: ReturnType<typeof evaluateGoals>) =>
+  Object.fromEntries([...evaluations].map(([goal, evaluation]) => [goal, evaluation.status]));
+
+describe("evaluateGoals", () => {
+  it("compares measurements with targets and baselines", () => {
+    const evaluations = evaluateGoals(
+      model,
+      measurements(
+        { water_consumption: 1180, leaks: 0, yield: 4.6, lux: 280 },
+        { water_consumption: 1500 }
+      )
+    );
+    expect(statuses(evaluations)).toEqual({
+      save_water: "pass",
+      grow_fast: "pass",
+      increase_yield: "pass",
+      use_daylight: "fail",
+    });
+    expect(evaluations.get("save_water")?.criteria[0]).toMatchObject({
+      value: 1180,
+      reference: 1500,
+      status: "pass",
+    });
+  });
+
+  it("passes failures and missing data up the refinement tree", () => {
+    expect(
+      statuses(evaluateGoals(model, measurements({ water_consumption: 1180, leaks: 1 })))
+    ).toEqual({
+      save_water: "fail",
+      grow_fast: "unknown",
+      increase_yield: "fail",
+      use_daylight: "unknown",
+    });
+  });
+
+  it("marks evaluated goal nodes with their status", () => {
+    const graph = annotateEvaluation(
+      darTwinToReactFlow(model),
+      evaluateGoals(model, measurements({ yield: 4 }))
+    );
+    expect(
+      graph.nodes.filter((node) => node.type === "goal").map((node) => [node.ref, node.evaluation])
+    ).toEqual([
+      ["increase_yield", "fail"],
+      ["save_water", "unknown"],
+      ["grow_fast", "fail"],
+      ["use_daylight", "unknown"],
+      ["undocumented", undefined],
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { parseMeasurementsCsv } from "../measurementsCsv";
+
+describe("parseMeasurementsCsv", () => {
+  it("splits rows by configuration and skips comments and blank lines", () => {
+    const { measurements, errors } = parseMeasurementsCsv(
+      [
+        "# greenhouse trial, week 12",
+        "Metric,Unit,Value,Configuration",
+        "water_consumption,l/day,1500,before",
+        "water_consumption,l/day,1180,after",
+        "",
+        'yield,"kg/m2, fresh",4.2,',
+        "yield,kg/m2,4.6",
+      ].join("\r\n")
+    );
+    expect(errors).toEqual([]);
+    expect(Object.fromEntries(measurements.before)).toEqual({ water_consumption: 1500 });
+    expect(Object.fromEntries(measurements.after)).toEqual({
+      water_consumption: 1180,
+      yield: 4.6,
+    });
+  });
+
+  it("reports unreadable rows by line and keeps the others", () => {
+    const { measurements, errors } = parseMeasurementsCsv(
+      "metric,value,configuration\nleaks,none\n,3\nleaks,0,during\nleaks,0\n"
+    );
+    expect(errors).toEqual([
+      { line: 2, message: 'Value "none" of leaks is not a number.' },
+      { line: 3, message: "Missing metric name." },
+      { line: 4, message: 'Unknown configuration "during"; expected before or after.' },
+    ]);
+    expect(Object.fromEntries(measurements.after)).toEqual({ leaks: 0 });
+  });
+
+  it("requires metric and value columns", () => {
+    expect(parseMeasurementsCsv("name,reading\nleaks,0")).toMatchObject({
+      errors: [{ line: 1, message: 'Missing column "metric" and "value".' }],
+      rejected: true,
+    });
+    expect(parseMeasurementsCsv("  \n")).toMatchObject({
+      errors: [{ line: 1, message: "The CSV file is empty." }],
+      rejected: true,
+    });
+    expect(parseMeasurementsCsv("metric,value\nleaks,none").rejected).toBe(false);
+  });
+});
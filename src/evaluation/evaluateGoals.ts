@@ -0,0 +1,96 @@
+import type { Comparator, DarTwinModel, GoalCriterion } from "../types/dartwin";
+import type { Measurements } from "./measurementsCsv";
+
+export type GoalStatus = "pass" | "fail" | "unknown";
+
+export interface CriterionEvaluation {
+  criterion: GoalCriterion;
+  /** Measured value in the `after` configuration. */
+  value?: number;
+  /** Value the measurement is compared with: the target, or else the baseline. */
+  reference?: number;
+  status: GoalStatus;
+}
+
+export interface GoalEvaluation {
+  status: GoalStatus;
+  criteria: CriterionEvaluation[];
+}
+
+/** Equality allows for rounding in the exported measurements. */
+const EPSILON = 1e-9;
+
+const COMPARE: Record<Comparator, (value: number, reference: number) => boolean> = {
+  "<": (value, reference) => value < reference,
+  "<=": (value, reference) => value <= reference,
+  ">": (value, reference) => value > reference,
+  ">=": (value, reference) => value >= reference,
+  "=": (value, reference) =>
+    Math.abs(value - reference) <= EPSILON * Math.max(1, Math.abs(reference)),
+};
+
+/** Any failure fails the whole; otherwise a single unknown leaves it unknown. */
+const combine = (statuses: GoalStatus[]): GoalStatus =>
+  statuses.includes("fail") ? "fail" : statuses.includes("unknown") ? "unknown" : "pass";
+
+export const evaluateCriterion = (
+  criterion: GoalCriterion,
+  measurements: Measurements
+): CriterionEvaluation => {
+  const value = measurements.after.get(criterion.metric);
+  const reference =
+    criterion.target ?? criterion.baseline ?? measurements.before.get(criterion.metric);
+  const status =
+    value === undefined || reference === undefined
+      ? "unknown"
+      : COMPARE[criterion.comparator](value, reference)
+        ? "pass"
+        : "fail";
+  return { criterion, value, reference, status };
+};
+
+/**
+ * Checks every goal's criteria against the measurements. A goal also takes on
+ * the status of the goals refining it, so a parent without criteria of its own
+ * passes once all of its subgoals pass. Goals with neither criteria nor
+ * evaluated subgoals are left out.
+ */
+export function evaluateGoals(
+  model: DarTwinModel,
+  measurements: Measurements
+): Map<string, GoalEvaluation> {
+  const subgoals = new Map<string, string[]>();
+  model.goals.forEach((goal) => {
+    if (goal.refines !== undefined) {
+      subgoals.set(goal.refines, [...(subgoals.get(goal.refines) ?? []), goal.name]);
+    }
+  });
+  const goals = new Map(model.goals.map((goal) => [goal.name, goal]));
+  const evaluations = new Map<string, GoalEvaluation>();
+  const visiting = new Set<string>();
+
+  const evaluate = (name: string): GoalEvaluation | undefined => {
+    // Refinement cycles are reported by validation; here they just stop the recursion.
+    if (evaluations.has(name) || visiting.has(name)) {
+      return evaluations.get(name);
+    }
+    visiting.add(name);
+    const criteria = (goals.get(name)?.criteria ?? []).map((criterion) =>
+      evaluateCriterion(criterion, measurements)
+    );
+    const statuses = [
+      ...criteria.map((evaluation) => evaluation.status),
+      ...(subgoals.get(name) ?? []).flatMap((subgoal) => evaluate(subgoal)?.status ?? []),
+    ];
+    visiting.delete(name);
+    if (statuses.length === 0) {
+      return undefined;
+    }
+    const evaluation = { status: combine(statuses), criteria };
+    evaluations.set(name, evaluation);
+    return evaluation;
+  };
+
+  model.goals.forEach((goal) => evaluate(goal.name));
+  return evaluations;
+}
@@ -0,0 +1,107 @@
+/** Measured metric values, by metric name, for each configuration of the twin. */
+export interface Measurements {
+  /** Values of the evolved twin; rows without a configuration count as `after`. */
+  after: Map<string, number>;
+  /** Values of the twin before the transformation, used as baselines. */
+  before: Map<string, number>;
+}
+
+export interface CsvError {
+  /** 1-based line of the CSV text. */
+  line: number;
+  message: string;
+}
+
+export interface MeasurementsCsvResult {
+  measurements: Measurements;
+  errors: CsvError[];
+  /** The file as a whole was refused: it is empty or lacks a required column. */
+  rejected: boolean;
+}
+
+const REQUIRED_COLUMNS = ["metric", "value"];
+
+/** Splits one CSV record; fields may be quoted, with `""` standing for a quote. */
+const splitRecord = (line: string) => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+/**
+ * Reads evaluation data with a `metric` and a `value` column and an optional
+ * `configuration` column (`before` or `after`); other columns, such as a unit
+ * or a timestamp, are ignored. When a metric is measured more than once in a
+ * configuration, the last row wins. Blank lines and lines starting with `#`
+ * are skipped.
+ */
+export function parseMeasurementsCsv(text: string): MeasurementsCsvResult {
+  const measurements: Measurements = { after: new Map(), before: new Map() };
+  const errors: CsvError[] = [];
+  const lines = text
+    .split(/\r?\n/)
+    .map((content, index) => ({ content, line: index + 1 }))
+    .filter(({ content }) => content.trim() && !content.trimStart().startsWith("#"));
+
+  const [header, ...rows] = lines;
+  if (!header) {
+    errors.push({ line: 1, message: "The CSV file is empty." });
+    return { measurements, errors, rejected: true };
+  }
+  const columns = splitRecord(header.content).map((column) => column.toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    errors.push({
+      line: header.line,
+      message: `Missing column ${missing.map((column) => `"${column}"`).join(" and ")}.`,
+    });
+    return { measurements, errors, rejected: true };
+  }
+  const column = (name: string) => columns.indexOf(name);
+
+  rows.forEach(({ content, line }) => {
+    const fields = splitRecord(content);
+    const metric = fields[column("metric")] ?? "";
+    const rawValue = fields[column("value")] ?? "";
+    const configuration = (
+      column("configuration") === -1 ? "" : (fields[column("configuration")] ?? "")
+    ).toLowerCase();
+    const value = Number(rawValue);
+    if (!metric) {
+      errors.push({ line, message: "Missing metric name." });
+    } else if (!rawValue || !Number.isFinite(value)) {
+      errors.push({ line, message: `Value "${rawValue}" of ${metric} is not a number.` });
+    } else if (configuration && configuration !== "before" && configuration !== "after") {
+      errors.push({
+        line,
+        message: `Unknown configuration "${configuration}"; expected before or after.`,
+      });
+    } else {
+      measurements[configuration === "before" ? "before" : "after"].set(metric, value);
+    }
+  });
+
+  return { measurements, errors, rejected: false };
+}
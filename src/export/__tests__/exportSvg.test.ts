@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { darTwinToReactFlow } from "../../adapters/darTwinToReactFlow";
+import { computeLayout } from "../../layout/computeLayout";
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { exportSvg } from "../exportSvg";
+
+const spec = `#dartwin Greenhouse {
+  #twinsystem Strawberry {
+    #digitaltwin StrawberryDT { port input; }
+    part Cultivation { port MultiSensor; }
+    connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input;
+  }
+  #goal increase_yield { doc /* more fruit & less <waste> */ }
+  allocate increase_yield to Strawberry.StrawberryDT;
+}`;
+
+const render = () => {
+  const { nodes, edges } = computeLayout(darTwinToReactFlow(parseDarTwin(spec)));
+  return exportSvg(nodes, edges, { title: "Greenhouse" });
+};
+
+describe("exportSvg", () => {
+  it("produces a standalone document with the frame tab and node shapes", () => {
+    const svg = render();
+
+    expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(svg).toContain('<tspan font-weight="700">dartwin</tspan>');
+    expect(svg).toContain(">Greenhouse</tspan>");
+    expect(svg).toContain(">twin.system</tspan>");
+    expect(svg).toContain(">digital twin</tspan>");
+    expect(svg).toContain(">part</tspan>");
+    expect(svg).toMatch(/<polygon points="[^"]+" fill="#fff" stroke="#000"/);
+    expect(svg).toContain(">Multi-sensor</text>");
+  });
+
+  it("embeds arrow markers and draws allocations dashed", () => {
+    const svg = render();
+
+    expect(svg).toContain('<marker id="arrow-000"');
+    expect(svg.match(/marker-end="url\(#arrow-000\)"/g)).toHaveLength(2);
+    expect(svg).toMatch(/<line [^>]*stroke-dasharray="6 4"/);
+    expect(svg).toContain(">allocate</text>");
+  });
+
+  it("escapes text and references no external resources", () => {
+    const svg = render();
+
+    expect(svg).toContain("more fruit &amp; less &lt;waste&gt;");
+    expect(svg).not.toMatch(/href=|@import|url\((?!#)/);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+
+import { darTwinToReactFlow } from "../../adapters/darTwinToReactFlow";
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { graphToDot } from "../toDot";
+import { graphToMermaid } from "../toMermaid";
+import { graphToPlantUml } from "../toPlantUml";
+
+const graph = darTwinToReactFlow(
+  parseDarTwin(`#dartwin Greenhouse {
+  #twinsystem Strawberry {
+    #digitaltwin StrawberryDT { in port input; }
+    part Cultivation { out port MultiSensor; }
+    connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input name moisture;
+  }
+  #goal increase_yield { doc /* more "fruit" */ }
+  allocate increase_yield to Strawberry.StrawberryDT;
+}`)
+);
+
+const goals = darTwinToReactFlow(
+  parseDarTwin(`#dartwin Farm {
+  #goal increase_yield;
+  #goal save_water conflicts with increase_yield;
+  #goal drip_irrigation refines save_water;
+}`)
+);
+
+describe("text diagram exporters", () => {
+  it("renders Graphviz DOT with clusters and an anchored allocation edge", () => {
+    expect(graphToDot(graph)).toMatchInlineSnapshot(`
+      "digraph "Greenhouse" {
+        compound=true;
+        label="dartwin Greenhouse";
+        labelloc="t";
+        fontname="Times New Roman";
+        node [fontname="Times New Roman"];
+        edge [fontname="Times New Roman", arrowhead="normal"];
+        subgraph cluster_twinsystem_Strawberry {
+          label="twin.system Strawberry";
+          subgraph cluster_dt_Strawberry_StrawberryDT {
+            label="digital twin StrawberryDT";
+            style="rounded";
+            dt_Strawberry_StrawberryDT__anchor [shape="point", style="invis"];
+            port_Strawberry_StrawberryDT_input [shape="square", label="input"];
+          }
+          subgraph cluster_at_Strawberry_Cultivation {
+            label="part Cultivation";
+            port_Strawberry_Cultivation_MultiSensor [shape="square", label="MultiSensor"];
+          }
+        }
+        goal_increase_yield [shape="trapezium", label="increase_yield\\nmore \\"fruit\\""];
+        port_Strawberry_Cultivation_MultiSensor -> port_Strawberry_StrawberryDT_input [label="moisture"];
+        dt_Strawberry_StrawberryDT__anchor -> goal_increase_yield [label="allocate", style="dashed", ltail="cluster_dt_Strawberry_StrawberryDT"];
+      }
+      "
+    `);
+  });
+
+  it("renders a Mermaid flowchart with subgraphs", () => {
+    expect(graphToMermaid(graph)).toMatchInlineSnapshot(`
+      "---
+      title: dartwin Greenhouse
+      ---
+      flowchart TB
+        subgraph twinsystem_Strawberry["twin.system Strawberry"]
+          subgraph dt_Strawberry_StrawberryDT["digital twin StrawberryDT"]
+            port_Strawberry_StrawberryDT_input["input"]
+          end
+          subgraph at_Strawberry_Cultivation["part Cultivation"]
+            port_Strawberry_Cultivation_MultiSensor["MultiSensor"]
+          end
+        end
+        goal_increase_yield[/"increase_yield<br/><i>more #quot;fruit#quot;</i>"\\]
+        port_Strawberry_Cultivation_MultiSensor -->|"moisture"| port_Strawberry_StrawberryDT_input
+        dt_Strawberry_StrawberryDT -.->|"allocate"| goal_increase_yield
+      "
+    `);
+  });
+
+  it("renders a PlantUML component diagram", () => {
+    expect(graphToPlantUml(graph)).toMatchInlineSnapshot(`
+      "@startuml
+      title dartwin Greenhouse
+      skinparam defaultFontName Times New Roman
+      skinparam componentStyle rectangle
+      rectangle "Strawberry" <<twin.system>> as twinsystem_Strawberry {
+        component "StrawberryDT" <<digital twin>> as dt_Strawberry_StrawberryDT {
+          portin "input" as port_Strawberry_StrawberryDT_input
+        }
+        component "Cultivation" <<part>> as at_Strawberry_Cultivation {
+          portout "MultiSensor" as port_Strawberry_Cultivation_MultiSensor
+        }
+      }
+      card "increase_yield\\n//more 'fruit'//" <<goal>> as goal_increase_yield
+      port_Strawberry_Cultivation_MultiSensor --> port_Strawberry_StrawberryDT_input : moisture
+      dt_Strawberry_StrawberryDT ..> goal_increase_yield : allocate
+      @enduml
+      "
+    `);
+  });
+
+  it("draws refinements with their own arrow and conflicts without direction", () => {
+    expect(graphToDot(goals)).toMatchInlineSnapshot(`
+      "digraph "Farm" {
+        compound=true;
+        label="dartwin Farm";
+        labelloc="t";
+        fontname="Times New Roman";
+        node [fontname="Times New Roman"];
+        edge [fontname="Times New Roman", arrowhead="normal"];
+        goal_increase_yield [shape="trapezium", label="increase_yield"];
+        goal_save_water [shape="trapezium", label="save_water"];
+        goal_drip_irrigation [shape="trapezium", label="drip_irrigation"];
+        goal_save_water -> goal_increase_yield [label="conflicts", style="dotted", dir="none"];
+        goal_drip_irrigation -> goal_save_water [label="refines", arrowhead="empty"];
+      }
+      "
+    `);
+    expect(graphToMermaid(goals)).toMatchInlineSnapshot(`
+      "---
+      title: dartwin Farm
+      ---
+      flowchart TB
+        goal_increase_yield[/"increase_yield"\\]
+        goal_save_water[/"save_water"\\]
+        goal_drip_irrigation[/"drip_irrigation"\\]
+        goal_save_water -.-|"conflicts"| goal_increase_yield
+        goal_drip_irrigation ==>|"refines"| goal_save_water
+      "
+    `);
+    expect(graphToPlantUml(goals)).toMatchInlineSnapshot(`
+      "@startuml
+      title dartwin Farm
+      skinparam defaultFontName Times New Roman
+      skinparam componentStyle rectangle
+      card "increase_yield" <<goal>> as goal_increase_yield
+      card "save_water" <<goal>> as goal_save_water
+      card "drip_irrigation" <<goal>> as goal_drip_irrigation
+      goal_save_water .. goal_increase_yield : conflicts
+      goal_drip_irrigation --|> goal_save_water : refines
+      @enduml
+      "
+    `);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { darTwinToSysml } from "../toSysml";
+
+describe("darTwinToSysml", () => {
+  it("maps stereotypes to metadata annotations and allocations to allocate", () => {
+    const model = parseDarTwin(`#dartwin Greenhouse {
+  #twinsystem Strawberry {
+    #digitaltwin StrawberryDT { in port input : sensor; out port output : actuator; }
+    part Cultivation { port MultiSensor; port water-valve; part Bed { port probe; } }
+    connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input name moisture;
+    connect Cultivation.Bed.probe to StrawberryDT.input;
+    connect StrawberryDT.output to Strawberry.Cultivation.water-valve;
+    connect StrawberryDT.missing to StrawberryDT.input;
+  }
+  #twinsystem Farm { #digitaltwin SchedulerDT { out port plan; } }
+  connect Farm.SchedulerDT.plan to Strawberry.StrawberryDT.input name schedule;
+  #goal increase_yield { doc /* more fruit */ }
+  #goal save_water refines increase_yield conflicts with grow_fast {
+    metric water_consumption : l/day < before;
+    metric leaks = 0;
+  }
+  #goal grow_fast refines increase_yield conflicts with save_water;
+  allocate increase_yield to Strawberry.StrawberryDT;
+  allocate save_water to StrawberryDT;
+  allocate grow_fast to Strawberry.Cultivation.Bed;
+}`);
+
+    expect(darTwinToSysml(model)).toMatchInlineSnapshot(`
+      "package DarTwinProfile {
+        metadata def DarTwin;
+        metadata def TwinSystem;
+        metadata def DigitalTwin;
+        metadata def Goal;
+        metadata def Refinement;
+        metadata def Conflict;
+        port def SensorPort;
+        port def ActuatorPort;
+        port def DataPort;
+        port def HumanPort;
+      }
+
+      package Greenhouse {
+        private import DarTwinProfile::*;
+
+        #DarTwin part Greenhouse {
+          #TwinSystem part Strawberry {
+            #DigitalTwin part StrawberryDT {
+              in port input : SensorPort;
+              out port output : ActuatorPort;
+            }
+            part Cultivation {
+              port MultiSensor;
+              port 'water-valve';
+              part Bed {
+                port probe;
+              }
+            }
+            connection moisture connect Cultivation.MultiSensor to StrawberryDT.input;
+            connect Cultivation.Bed.probe to StrawberryDT.input;
+            connect StrawberryDT.output to Cultivation.'water-valve';
+            // skipped: connect StrawberryDT.missing to StrawberryDT.input (unknown port)
+          }
+          #TwinSystem part Farm {
+            #DigitalTwin part SchedulerDT {
+              out port plan;
+            }
+          }
+          connection schedule connect Farm.SchedulerDT.plan to Strawberry.StrawberryDT.input;
+          #Goal requirement increase_yield {
+            doc /* more fruit */
+          }
+          #Goal requirement save_water {
+            attribute water_consumption; // l/day
+            attribute water_consumption_baseline;
+            attribute leaks;
+            require constraint { water_consumption < water_consumption_baseline }
+            require constraint { leaks == 0 }
+          }
+          #Goal requirement grow_fast;
+          #Refinement dependency save_water to increase_yield;
+          #Conflict dependency save_water to grow_fast;
+          #Refinement dependency grow_fast to increase_yield;
+          allocate increase_yield to Strawberry.StrawberryDT;
+          allocate save_water to Strawberry.StrawberryDT;
+          allocate grow_fast to Strawberry.Cultivation.Bed;
+        }
+      }
+      "
+    `);
+  });
+});
@@ -0,0 +1,435 @@
+import type { Edge, Node } from "reactflow";
+import type { GoalStatus } from "../evaluation/evaluateGoals";
+import { EVALUATION_LABELS, HEADER_PREFIXES } from "../layout/labels";
+import { FONT_FAMILY, GOAL_DOC_FONT, measureText, wrapText } from "../layout/measure";
+import { PORT_HANDLES } from "../layout/placement";
+
+const MARGIN = 48;
+const TAB_HEIGHT = 34;
+const TAB_LEFT = 48;
+const DIVIDER_INSET = 60;
+const DIVIDER_MARKER_INSET = 140;
+const PORT_SQUARE = 20;
+const PORT_CAPTION_GAP = 6;
+const FALLBACK_SIZE = { width: 120, height: 56 };
+
+/** Fill and stroke per diagram class, mirroring `styles/diagram.css`. */
+const HIGHLIGHTS: Record<string, { stroke: string; fill: string }> = {
+  "diff-added": { stroke: "#1b7837", fill: "#e6f4ea" },
+  "diff-removed": { stroke: "#c62828", fill: "#fdecea" },
+  "diff-changed": { stroke: "#b26a00", fill: "#fff4e0" },
+  "core-element": { stroke: "#000", fill: "#e8eef8" },
+};
+
+export interface SvgExportOptions {
+  /** DarTwin name shown in the frame tab. */
+  title: string;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const attributes = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+    .join(" ");
+
+const element = (name: string, values: Record<string, string | number | undefined>, body = "") => {
+  const tag = [name, attributes(values)].filter(Boolean).join(" ");
+  return body ? `<${tag}>${body}</${name}>` : `<${tag}/>`;
+};
+
+const sizeOf = (node: Node) => ({
+  width: Number(node.style?.width ?? node.width ?? FALLBACK_SIZE.width),
+  height: Number(node.style?.height ?? node.height ?? FALLBACK_SIZE.height),
+});
+
+/** Node boxes in flow coordinates; child positions in ReactFlow are relative to the parent. */
+const absoluteBoxes = (nodes: Node[]) => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const positionOf = (node: Node): Point => {
+    const parent = node.parentNode ? byId.get(node.parentNode) : undefined;
+    if (!parent) {
+      return node.position;
+    }
+    const origin = positionOf(parent);
+    return { x: origin.x + node.position.x, y: origin.y + node.position.y };
+  };
+  return new Map(nodes.map((node) => [node.id, { ...positionOf(node), ...sizeOf(node) }]));
+};
+
+const highlightOf = (node: Node) =>
+  (node.className ?? "")
+    .split(/\s+/)
+    .map((name) => HIGHLIGHTS[name])
+    .find((highlight) => highlight !== undefined);
+
+const strokeWidthOf = (node: Node, base: number) =>
+  node.className?.includes("core-element") ? 3 : base;
+
+const headerText = (x: number, y: number, prefix: string, label: string) =>
+  element(
+    "text",
+    { x, y, "font-size": 16 },
+    `${element("tspan", { "font-weight": 700 }, escapeXml(prefix))}${element(
+      "tspan",
+      { dx: 10, "font-weight": 700, "font-style": "italic" },
+      escapeXml(label)
+    )}`
+  );
+
+const renderContainer = (node: Node, box: Box, prefix: string, rounded: boolean) => {
+  const highlight = highlightOf(node);
+  return [
+    element("rect", {
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+      rx: rounded ? 6 : undefined,
+      fill: highlight?.fill ?? (rounded ? "#fffdf7" : "#fff"),
+      stroke: highlight?.stroke ?? "#000",
+      "stroke-width": strokeWidthOf(node, rounded ? 2 : 1.5),
+    }),
+    headerText(box.x + 22, box.y + 30, prefix, String(node.data?.label ?? "")),
+  ].join("");
+};
+
+const BADGE_COLORS: Record<GoalStatus, string> = {
+  pass: "#1b7837",
+  fail: "#c62828",
+  unknown: "#6a737d",
+};
+
+/** The pass/fail pill of an evaluated goal, centred on `x` with its text baseline at `y`. */
+const renderBadge = (status: GoalStatus, x: number, y: number) => {
+  const text = EVALUATION_LABELS[status].toUpperCase();
+  const width = measureText(text, { size: 11, weight: "bold" }) + 16;
+  return [
+    element("rect", {
+      x: x - width / 2,
+      y: y - 12,
+      width,
+      height: 16,
+      rx: 8,
+      fill: BADGE_COLORS[status],
+    }),
+    element(
+      "text",
+      { x, y, "font-size": 11, "font-weight": 700, fill: "#fff", "text-anchor": "middle" },
+      escapeXml(text)
+    ),
+  ].join("");
+};
+
+const renderGoal = (node: Node, box: Box) => {
+  const highlight = highlightOf(node);
+  const bottom = box.y + box.height * 0.86;
+  const inset = box.width * 0.12;
+  const points = [
+    [box.x + inset, box.y],
+    [box.x + box.width - inset, box.y],
+    [box.x + box.width, bottom],
+    [box.x, bottom],
+  ]
+    .map(([x, y]) => `${x},${y}`)
+    .join(" ");
+  const center = box.x + box.width / 2;
+  const docLines = node.data?.doc
+    ? wrapText(String(node.data.doc), box.width - 2 * inset, GOAL_DOC_FONT)
+    : [];
+  const criteria: string[] = Array.isArray(node.data?.criteria) ? node.data.criteria : [];
+  const status = node.data?.evaluation as GoalStatus | undefined;
+  const textHeight = (docLines.length + criteria.length) * 15 + (status ? 20 : 0);
+  const titleY = box.y + (bottom - box.y) / 2 - textHeight / 2 + 6;
+  const criteriaY = titleY + 20 + docLines.length * 15;
+  const badgeY = criteriaY + criteria.length * 15;
+  return [
+    element("polygon", {
+      points,
+      fill: highlight?.fill ?? "#fff",
+      stroke: highlight?.stroke ?? "#000",
+      "stroke-width": strokeWidthOf(node, 1.5),
+    }),
+    element(
+      "text",
+      { x: center, y: titleY, "font-size": 18, "font-weight": 700, "text-anchor": "middle" },
+      escapeXml(String(node.data?.label ?? ""))
+    ),
+    ...docLines.map((line, index) =>
+      element(
+        "text",
+        {
+          x: center,
+          y: titleY + 20 + index * 15,
+          "font-size": 12,
+          "font-style": "italic",
+          "text-anchor": "middle",
+        },
+        escapeXml(line)
+      )
+    ),
+    ...criteria.map((line, index) =>
+      element(
+        "text",
+        { x: center, y: criteriaY + index * 15, "font-size": 12, "text-anchor": "middle" },
+        escapeXml(line)
+      )
+    ),
+    ...(status ? [renderBadge(status, center, badgeY)] : []),
+  ].join("");
+};
+
+const renderPort = (node: Node, box: Box) => {
+  const highlight = highlightOf(node);
+  const x = box.x + (box.width - PORT_SQUARE) / 2;
+  const caption = node.data?.caption ? String(node.data.caption) : "";
+  return [
+    element("rect", {
+      x,
+      y: box.y,
+      width: PORT_SQUARE,
+      height: PORT_SQUARE,
+      fill: highlight?.fill ?? "#fff",
+      stroke: highlight?.stroke ?? "#000",
+      "stroke-width": strokeWidthOf(node, 1.2),
+    }),
+    caption
+      ? element(
+          "text",
+          {
+            x: box.x + box.width / 2,
+            y: box.y + PORT_SQUARE + PORT_CAPTION_GAP + 12,
+            "font-size": 12,
+            "text-anchor": "middle",
+          },
+          escapeXml(caption)
+        )
+      : "",
+  ].join("");
+};
+
+const renderNode = (node: Node, box: Box) => {
+  switch (node.type) {
+    case "goal":
+      return renderGoal(node, box);
+    case "twinsystem":
+      return renderContainer(node, box, HEADER_PREFIXES.twinsystem, false);
+    case "dt":
+      return renderContainer(node, box, HEADER_PREFIXES.dt, true);
+    case "at":
+      return renderContainer(node, box, HEADER_PREFIXES.at, false);
+    case "port":
+      return renderPort(node, box);
+    default:
+      return "";
+  }
+};
+
+/**
+ * Where an edge meets the node: goals at the bottom unless the edge's handle
+ * names their top, ports on the side of their square that the handle names,
+ * everything else at the top.
+ */
+const anchorOf = (node: Node, box: Box, handle?: string | null): Point => ({
+  x: box.x + box.width / 2,
+  y:
+    node.type === "goal" && handle !== PORT_HANDLES.top
+      ? box.y + box.height * 0.86
+      : node.type === "port" && handle === PORT_HANDLES.bottom
+        ? box.y + PORT_SQUARE
+        : box.y,
+});
+
+const markerId = (color: string) => `arrow-${color.replace(/[^a-zA-Z0-9]/g, "")}`;
+
+const edgeColor = (edge: Edge) => {
+  const arrow = [edge.markerEnd, edge.markerStart].find((marker) => typeof marker === "object");
+  const marker = typeof arrow === "object" ? arrow.color : undefined;
+  return String(marker ?? edge.style?.stroke ?? "#000");
+};
+
+const renderMarker = (color: string) =>
+  element(
+    "marker",
+    {
+      id: markerId(color),
+      viewBox: "0 0 10 10",
+      refX: 10,
+      refY: 5,
+      markerWidth: 10,
+      markerHeight: 10,
+      markerUnits: "userSpaceOnUse",
+      orient: "auto-start-reverse",
+    },
+    element("path", { d: "M 0 0 L 10 5 L 0 10 z", fill: color })
+  );
+
+const renderEdge = (edge: Edge, from: Point, to: Point) => {
+  const color = edgeColor(edge);
+  const label = typeof edge.label === "string" ? edge.label : "";
+  return [
+    element("line", {
+      x1: from.x,
+      y1: from.y,
+      x2: to.x,
+      y2: to.y,
+      stroke: String(edge.style?.stroke ?? color),
+      "stroke-width": edge.style?.strokeWidth ?? 1.2,
+      "stroke-dasharray": edge.style?.strokeDasharray,
+      "marker-start": edge.markerStart ? `url(#${markerId(color)})` : undefined,
+      "marker-end": edge.markerEnd ? `url(#${markerId(color)})` : undefined,
+    }),
+    label
+      ? element(
+          "text",
+          {
+            x: (from.x + to.x) / 2,
+            y: (from.y + to.y) / 2 - 4,
+            "font-size": 11,
+            "text-anchor": "middle",
+            "paint-order": "stroke",
+            stroke: "#fff",
+            "stroke-width": 3,
+          },
+          escapeXml(label.toLowerCase())
+        )
+      : "",
+  ].join("");
+};
+
+/** Horizontal rule between the goal row and the twin systems, as drawn by `DarTwinFrame`. */
+const dividerY = (nodes: Node[], boxes: Map<string, Box>) => {
+  const bottomOfGoals = Math.max(
+    ...nodes
+      .filter((node) => node.type === "goal")
+      .map((node) => boxes.get(node.id)!.y + boxes.get(node.id)!.height)
+  );
+  const topOfSystems = Math.min(
+    ...nodes.filter((node) => node.type === "twinsystem").map((node) => boxes.get(node.id)!.y)
+  );
+  return Number.isFinite(bottomOfGoals) && Number.isFinite(topOfSystems)
+    ? (bottomOfGoals + topOfSystems) / 2
+    : undefined;
+};
+
+const renderFrame = (width: number, height: number, title: string, divider?: number) => {
+  const tabWidth = measureText(`dartwin ${title}`, { size: 16 }) + 62;
+  const markers = [
+    DIVIDER_INSET + DIVIDER_MARKER_INSET,
+    width - DIVIDER_INSET - DIVIDER_MARKER_INSET - 14,
+  ];
+  return [
+    element("rect", {
+      x: 0.75,
+      y: 0.75,
+      width: width - 1.5,
+      height: height - 1.5,
+      fill: "#fff",
+      stroke: "#000",
+      "stroke-width": 1.5,
+    }),
+    element("path", {
+      d: `M ${TAB_LEFT} 0 V ${TAB_HEIGHT} M ${TAB_LEFT + tabWidth} 0 V ${TAB_HEIGHT}`,
+      stroke: "#000",
+      "stroke-width": 1.5,
+    }),
+    element(
+      "text",
+      { x: TAB_LEFT + 24, y: TAB_HEIGHT - 12, "font-size": 16 },
+      `${element("tspan", { "font-weight": 700 }, "dartwin")}${element(
+        "tspan",
+        { dx: 14, "font-style": "italic" },
+        escapeXml(title)
+      )}`
+    ),
+    divider === undefined
+      ? ""
+      : [
+          element("line", {
+            x1: DIVIDER_INSET,
+            y1: divider,
+            x2: width - DIVIDER_INSET,
+            y2: divider,
+            stroke: "#000",
+            "stroke-width": 1.5,
+          }),
+          ...markers.map((x) =>
+            element("polygon", {
+              points: `${x},${divider} ${x + 14},${divider} ${x + 7},${divider + 10}`,
+            })
+          ),
+        ].join(""),
+  ].join("");
+};
+
+/**
+ * Renders laid-out diagram nodes and edges as a standalone SVG document: the
+ * frame with its tab, node shapes, edge labels and arrow markers are all
+ * inline, and only locally installed fonts are referenced.
+ */
+export function exportSvg(nodes: Node[], edges: Edge[], { title }: SvgExportOptions): string {
+  const boxes = absoluteBoxes(nodes);
+  const extent = nodes.map((node) => boxes.get(node.id)!);
+  const minX = extent.length > 0 ? Math.min(...extent.map((box) => box.x)) : 0;
+  const minY = extent.length > 0 ? Math.min(...extent.map((box) => box.y)) : 0;
+  // An empty diagram still gets a frame wide enough for its tab.
+  const maxX = Math.max(...extent.map((box) => box.x + box.width), minX + 200);
+  const maxY = Math.max(...extent.map((box) => box.y + box.height), minY + 100);
+
+  const offsetX = MARGIN - minX;
+  const offsetY = MARGIN + TAB_HEIGHT - minY;
+  const width = Math.ceil(maxX - minX + 2 * MARGIN);
+  const height = Math.ceil(maxY - minY + 2 * MARGIN + TAB_HEIGHT);
+  const shift = (box: Box): Box => ({ ...box, x: box.x + offsetX, y: box.y + offsetY });
+
+  const shifted = new Map([...boxes].map(([id, box]) => [id, shift(box)]));
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const colors = [
+    ...new Set(edges.filter((edge) => edge.markerEnd || edge.markerStart).map(edgeColor)),
+  ];
+  const divider = dividerY(nodes, shifted);
+
+  const renderedEdges = edges.map((edge) => {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target) {
+      return "";
+    }
+    return renderEdge(
+      edge,
+      anchorOf(source, shifted.get(source.id)!, edge.sourceHandle),
+      anchorOf(target, shifted.get(target.id)!, edge.targetHandle)
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" ${attributes({
+      width,
+      height,
+      viewBox: `0 0 ${width} ${height}`,
+      "font-family": FONT_FAMILY,
+    })}>`,
+    element("defs", {}, colors.map(renderMarker).join("")),
+    renderFrame(width, height, title, divider),
+    // Parents first so that children are painted on top, as on the canvas.
+    ...nodes.map((node) => renderNode(node, shifted.get(node.id)!)),
+    ...renderedEdges,
+    "</svg>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,60 @@
+import type { DarTwinEdge, DarTwinGraph, DarTwinNode } from "../types/reactflow";
+
+/** Container heading per node type, matching the headers drawn on the canvas. */
+export const CONTAINER_HEADERS: Partial<Record<DarTwinNode["type"], string>> = {
+  twinsystem: "twin.system",
+  dt: "digital twin",
+  at: "part",
+};
+
+export const isContainer = (node: DarTwinNode) => node.type in CONTAINER_HEADERS;
+
+export const isAllocation = (edge: DarTwinEdge) => edge.label === "allocate";
+
+export const isRefinement = (edge: DarTwinEdge) => edge.label === "refines";
+
+/** A conflict is mutual, so exporters draw it without an arrowhead. */
+export const isConflict = (edge: DarTwinEdge) => edge.label === "conflicts";
+
+export interface GraphTree {
+  /** Elements directly inside the DarTwin: twin systems and goals. */
+  roots: DarTwinNode[];
+  childrenOf: (node: DarTwinNode) => DarTwinNode[];
+  title: string;
+}
+
+export const createGraphTree = ({ nodes }: DarTwinGraph): GraphTree => {
+  const dartwin = nodes.find((node) => node.type === "dartwin");
+  const children = new Map<string, DarTwinNode[]>();
+  nodes.forEach((node) => {
+    if (node.parentId) {
+      children.set(node.parentId, [...(children.get(node.parentId) ?? []), node]);
+    }
+  });
+  return {
+    roots: nodes.filter(
+      (node) => node.type !== "dartwin" && (!node.parentId || node.parentId === dartwin?.id)
+    ),
+    childrenOf: (node) => children.get(node.id) ?? [],
+    title: dartwin?.label ?? "",
+  };
+};
+
+/**
+ * Graph node ids contain `::` and arbitrary names, which none of the text
+ * formats accept unquoted; this maps each to a unique `[A-Za-z0-9_]` name.
+ */
+export const createIdentifiers = (nodes: DarTwinNode[]) => {
+  const used = new Set<string>();
+  const identifiers = new Map<string, string>();
+  nodes.forEach((node) => {
+    const base = `${node.type}_${(node.ref ?? node.label).replace(/\W+/g, "_")}`;
+    let candidate = base;
+    for (let suffix = 2; used.has(candidate); suffix += 1) {
+      candidate = `${base}_${suffix}`;
+    }
+    used.add(candidate);
+    identifiers.set(node.id, candidate);
+  });
+  return (id: string) => identifiers.get(id) ?? id.replace(/\W+/g, "_");
+};
@@ -0,0 +1,98 @@
+import type { DarTwinEdge, DarTwinGraph, DarTwinNode } from "../types/reactflow";
+import {
+  CONTAINER_HEADERS,
+  createGraphTree,
+  createIdentifiers,
+  isAllocation,
+  isConflict,
+  isContainer,
+  isRefinement,
+} from "./graphText";
+
+const INDENT = "  ";
+
+const quote = (value: string) =>
+  `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+
+const attributeList = (values: Record<string, string | undefined>) =>
+  `[${Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${quote(value!)}`)
+    .join(", ")}]`;
+
+/**
+ * Renders the graph as a Graphviz digraph. Twin systems, digital twins and
+ * parts become clusters; a cluster that an edge starts or ends at holds an
+ * invisible anchor node, so that allocation edges can be clipped at the
+ * cluster border (`ltail`/`lhead`).
+ */
+export function graphToDot(graph: DarTwinGraph): string {
+  const tree = createGraphTree(graph);
+  const identifierOf = createIdentifiers(graph.nodes);
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const clusterOf = (node: DarTwinNode) => `cluster_${identifierOf(node.id)}`;
+  const anchorOf = (node: DarTwinNode) => `${identifierOf(node.id)}__anchor`;
+  const anchored = new Set(graph.edges.flatMap((edge) => [edge.source, edge.target]));
+
+  const renderNode = (node: DarTwinNode, depth: number): string[] => {
+    const pad = INDENT.repeat(depth);
+    if (isContainer(node)) {
+      return [
+        `${pad}subgraph ${clusterOf(node)} {`,
+        `${pad}${INDENT}label=${quote(`${CONTAINER_HEADERS[node.type]} ${node.label}`)};`,
+        ...(node.type === "dt" ? [`${pad}${INDENT}style="rounded";`] : []),
+        ...(anchored.has(node.id)
+          ? [
+              `${pad}${INDENT}${anchorOf(node)} ${attributeList({ shape: "point", style: "invis" })};`,
+            ]
+          : []),
+        ...tree.childrenOf(node).flatMap((child) => renderNode(child, depth + 1)),
+        `${pad}}`,
+      ];
+    }
+    if (node.type === "goal") {
+      const label = node.doc ? `${node.label}\n${node.doc}` : node.label;
+      return [`${pad}${identifierOf(node.id)} ${attributeList({ shape: "trapezium", label })};`];
+    }
+    return [
+      `${pad}${identifierOf(node.id)} ${attributeList({ shape: "square", label: node.label })};`,
+    ];
+  };
+
+  /** Containers are entered through their anchor node, clipped at the cluster border. */
+  const endpoint = (id: string) => {
+    const node = byId.get(id);
+    return node && isContainer(node)
+      ? { id: anchorOf(node), cluster: clusterOf(node) }
+      : { id: identifierOf(id), cluster: undefined };
+  };
+
+  /** Refinements get a hollow arrowhead; conflicts are dotted and undirected. */
+  const renderEdge = (edge: DarTwinEdge) => {
+    const source = endpoint(edge.source);
+    const target = endpoint(edge.target);
+    const attributes = attributeList({
+      label: edge.label,
+      style: isAllocation(edge) ? "dashed" : isConflict(edge) ? "dotted" : undefined,
+      dir: isConflict(edge) ? "none" : edge.flow === "backward" ? "back" : edge.flow,
+      arrowhead: isRefinement(edge) ? "empty" : undefined,
+      ltail: source.cluster,
+      lhead: target.cluster,
+    });
+    return `${INDENT}${source.id} -> ${target.id}${attributes === "[]" ? "" : ` ${attributes}`};`;
+  };
+
+  return [
+    `digraph ${quote(tree.title || "dartwin")} {`,
+    `${INDENT}compound=true;`,
+    `${INDENT}label=${quote(`dartwin ${tree.title}`)};`,
+    `${INDENT}labelloc="t";`,
+    `${INDENT}fontname="Times New Roman";`,
+    `${INDENT}node [fontname="Times New Roman"];`,
+    `${INDENT}edge [fontname="Times New Roman", arrowhead="normal"];`,
+    ...tree.roots.flatMap((node) => renderNode(node, 1)),
+    ...graph.edges.map(renderEdge),
+    "}",
+    "",
+  ].join("\n");
+}
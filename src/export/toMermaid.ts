@@ -0,0 +1,77 @@
+import type { DarTwinEdge, DarTwinGraph, DarTwinNode } from "../types/reactflow";
+import {
+  CONTAINER_HEADERS,
+  createGraphTree,
+  createIdentifiers,
+  isAllocation,
+  isConflict,
+  isContainer,
+  isRefinement,
+} from "./graphText";
+
+const INDENT = "  ";
+
+/** Mermaid labels are double-quoted strings; `#name;` entities stand in for special characters. */
+const escape = (value: string) =>
+  value.replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+
+const label = (value: string) => `"${value}"`;
+
+/**
+ * Renders the graph as a Mermaid flowchart. Containers become subgraphs,
+ * which Mermaid lets edges start from, so allocations need no anchor node.
+ */
+export function graphToMermaid(graph: DarTwinGraph): string {
+  const tree = createGraphTree(graph);
+  const identifierOf = createIdentifiers(graph.nodes);
+
+  const renderNode = (node: DarTwinNode, depth: number): string[] => {
+    const pad = INDENT.repeat(depth);
+    const id = identifierOf(node.id);
+    if (isContainer(node)) {
+      return [
+        `${pad}subgraph ${id}[${label(`${CONTAINER_HEADERS[node.type]} ${escape(node.label)}`)}]`,
+        ...tree.childrenOf(node).flatMap((child) => renderNode(child, depth + 1)),
+        `${pad}end`,
+      ];
+    }
+    if (node.type === "goal") {
+      const text = node.doc
+        ? `${escape(node.label)}<br/><i>${escape(node.doc)}</i>`
+        : escape(node.label);
+      return [`${pad}${id}[/${label(text)}\\]`];
+    }
+    return [`${pad}${id}[${label(escape(node.label))}]`];
+  };
+
+  /**
+   * Backward connections are written the way their data flows. Refinements are
+   * thick arrows; conflicts are dotted lines without an arrowhead.
+   */
+  const renderEdge = (edge: DarTwinEdge) => {
+    const [source, target] = [edge.source, edge.target].map(identifierOf);
+    const [from, to] = edge.flow === "backward" ? [target, source] : [source, target];
+    const arrow = isAllocation(edge)
+      ? "-.->"
+      : isConflict(edge)
+        ? "-.-"
+        : isRefinement(edge)
+          ? "==>"
+          : edge.flow === "both"
+            ? "<-->"
+            : "-->";
+    return edge.label
+      ? `${INDENT}${from} ${arrow}|${label(escape(edge.label))}| ${to}`
+      : `${INDENT}${from} ${arrow} ${to}`;
+  };
+
+  return [
+    "---",
+    `title: dartwin ${tree.title}`,
+    "---",
+    "flowchart TB",
+    ...tree.roots.flatMap((node) => renderNode(node, 1)),
+    ...graph.edges.map(renderEdge),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,86 @@
+import type { PortDirection } from "../types/dartwin";
+import type { DarTwinEdge, DarTwinGraph, DarTwinNode, EdgeFlow } from "../types/reactflow";
+import {
+  CONTAINER_HEADERS,
+  createGraphTree,
+  createIdentifiers,
+  isAllocation,
+  isConflict,
+  isRefinement,
+} from "./graphText";
+
+const INDENT = "  ";
+
+const quote = (value: string) => `"${value.replace(/"/g, "'")}"`;
+
+/** Element keyword per node type; twin systems are plain frames, the rest components. */
+const KEYWORDS: Partial<Record<DarTwinNode["type"], string>> = {
+  twinsystem: "rectangle",
+  dt: "component",
+  at: "component",
+};
+
+/** Undirected ports are plain `port`s, like `inout` ones. */
+const PORT_KEYWORDS: Record<PortDirection, string> = {
+  in: "portin",
+  out: "portout",
+  inout: "port",
+};
+
+const EDGE_ARROWS: Record<EdgeFlow, string> = {
+  forward: "-->",
+  backward: "<--",
+  both: "<-->",
+};
+
+/**
+ * Renders the graph as a PlantUML component diagram: twin systems are
+ * rectangles, digital twins and parts are components with their ports, and
+ * goals are cards.
+ */
+export function graphToPlantUml(graph: DarTwinGraph): string {
+  const tree = createGraphTree(graph);
+  const identifierOf = createIdentifiers(graph.nodes);
+
+  const renderNode = (node: DarTwinNode, depth: number): string[] => {
+    const pad = INDENT.repeat(depth);
+    const id = identifierOf(node.id);
+    const keyword = KEYWORDS[node.type];
+    if (keyword) {
+      const children = tree.childrenOf(node);
+      const header = `${pad}${keyword} ${quote(node.label)} <<${CONTAINER_HEADERS[node.type]}>> as ${id}`;
+      return children.length === 0
+        ? [header]
+        : [`${header} {`, ...children.flatMap((child) => renderNode(child, depth + 1)), `${pad}}`];
+    }
+    if (node.type === "goal") {
+      const text = node.doc ? `${node.label}\\n//${node.doc}//` : node.label;
+      return [`${pad}card ${quote(text)} <<goal>> as ${id}`];
+    }
+    return [`${pad}${PORT_KEYWORDS[node.direction ?? "inout"]} ${quote(node.label)} as ${id}`];
+  };
+
+  /** Refinements use the hollow generalisation arrow; conflicts are undirected dotted lines. */
+  const renderEdge = (edge: DarTwinEdge) => {
+    const arrow = isAllocation(edge)
+      ? "..>"
+      : isConflict(edge)
+        ? ".."
+        : isRefinement(edge)
+          ? "--|>"
+          : EDGE_ARROWS[edge.flow ?? "forward"];
+    const suffix = edge.label ? ` : ${edge.label}` : "";
+    return `${identifierOf(edge.source)} ${arrow} ${identifierOf(edge.target)}${suffix}`;
+  };
+
+  return [
+    "@startuml",
+    `title dartwin ${tree.title}`,
+    "skinparam defaultFontName Times New Roman",
+    "skinparam componentStyle rectangle",
+    ...tree.roots.flatMap((node) => renderNode(node, 0)),
+    ...graph.edges.map(renderEdge),
+    "@enduml",
+    "",
+  ].join("\n");
+}
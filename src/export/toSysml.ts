@@ -0,0 +1,191 @@
+import { createReferenceIndex, type PortReference, type ReferenceIndex } from "../model/references";
+import {
+  PORT_KINDS,
+  type Allocation,
+  type Comparator,
+  type Connection,
+  type DarTwinModel,
+  type Goal,
+  type GoalCriterion,
+  type OriginalTwin,
+  type Port,
+  type PortKind,
+  type TwinSystem,
+} from "../types/dartwin";
+
+const INDENT = "  ";
+
+/** Name of the library package that declares the DarTwin stereotypes as metadata. */
+const PROFILE_PACKAGE = "DarTwinProfile";
+
+const STEREOTYPES = ["DarTwin", "TwinSystem", "DigitalTwin", "Goal", "Refinement", "Conflict"];
+
+/** Port kinds are typed by port definitions of the profile, e.g. `SensorPort`. */
+const portDefinition = (kind: PortKind) => `${kind[0]!.toUpperCase()}${kind.slice(1)}Port`;
+
+const indent = (lines: string[]) => lines.map((line) => (line ? `${INDENT}${line}` : line));
+
+const block = (header: string, body: string[]) =>
+  body.length === 0 ? [`${header};`] : [`${header} {`, ...indent(body), "}"];
+
+/** Names outside SysML's basic name syntax (e.g. with `-`) become unrestricted `'names'`. */
+const sysmlName = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `'${name.replace(/['\\]/g, "\\$&")}'`;
+
+const sysmlPath = (segments: string[]) => segments.map(sysmlName).join(".");
+
+const escapeComment = (text: string) => text.replace(/\*\//g, "* /");
+
+/**
+ * Inside a system's part body its owners are visible by their own names;
+ * connections between systems are written in the DarTwin body, so their ends
+ * also name the system.
+ */
+const printConnection = (
+  connection: Connection,
+  from: PortReference | undefined,
+  to: PortReference | undefined,
+  withSystem: boolean
+): string => {
+  if (!from || !to) {
+    return `// skipped: connect ${connection.from} to ${connection.to} (unknown port)`;
+  }
+  const end = (port: PortReference) =>
+    sysmlPath([...(withSystem ? [port.system] : []), ...port.owner.split("."), port.port]);
+  const statement = `connect ${end(from)} to ${end(to)};`;
+  return connection.name ? `connection ${sysmlName(connection.name)} ${statement}` : statement;
+};
+
+const printPort = (port: Port) =>
+  `${port.direction ? `${port.direction} ` : ""}port ${sysmlName(port.name)}${
+    port.kind ? ` : ${portDefinition(port.kind)}` : ""
+  };`;
+
+const printPart = (part: OriginalTwin): string[] =>
+  block(`part ${sysmlName(part.name)}`, [
+    ...part.ports.map(printPort),
+    ...(part.parts ?? []).flatMap(printPart),
+  ]);
+
+const printTwinSystem = (system: TwinSystem, index: ReferenceIndex) =>
+  block(`#TwinSystem part ${sysmlName(system.name)}`, [
+    ...system.digital_twins.flatMap((dt) =>
+      block(`#DigitalTwin part ${sysmlName(dt.name)}`, dt.ports.map(printPort))
+    ),
+    ...system.original_twins.flatMap(printPart),
+    ...system.connections.map((connection) =>
+      printConnection(
+        connection,
+        index.resolvePort(system.name, connection.from),
+        index.resolvePort(system.name, connection.to),
+        false
+      )
+    ),
+  ]);
+
+/** SysML writes equality in constraints as `==`. */
+const sysmlComparator = (comparator: Comparator) => (comparator === "=" ? "==" : comparator);
+
+/**
+ * Each metric becomes an attribute of the requirement, with a `<metric>_baseline`
+ * attribute when a criterion compares with the `before` configuration, and each
+ * criterion a required constraint on it.
+ */
+const printCriteria = (criteria: GoalCriterion[]) => {
+  const attributes = new Map<string, string>();
+  const constraints = criteria.map((criterion) => {
+    const metric = sysmlName(criterion.metric);
+    attributes.set(
+      criterion.metric,
+      `attribute ${metric};${criterion.unit ? ` // ${criterion.unit}` : ""}`
+    );
+    let reference = String(criterion.target);
+    if (criterion.target === undefined) {
+      const baseline = `${criterion.metric}_baseline`;
+      reference = sysmlName(baseline);
+      attributes.set(
+        baseline,
+        `attribute ${reference}${
+          criterion.baseline !== undefined ? ` = ${criterion.baseline}` : ""
+        };`
+      );
+    }
+    return `require constraint { ${metric} ${sysmlComparator(criterion.comparator)} ${reference} }`;
+  });
+  return [...attributes.values(), ...constraints];
+};
+
+const printGoal = (goal: Goal) =>
+  block(`#Goal requirement ${sysmlName(goal.name)}`, [
+    ...(goal.doc ? [`doc /* ${escapeComment(goal.doc)} */`] : []),
+    ...printCriteria(goal.criteria ?? []),
+  ]);
+
+/**
+ * Refinements and conflicts between goals become dependencies between their
+ * requirements, annotated with the profile's metadata; each conflicting pair
+ * is written once.
+ */
+const printGoalRelations = (goals: Goal[]) => {
+  const conflicts = new Set<string>();
+  return goals.flatMap((goal) => [
+    ...(goal.refines
+      ? [`#Refinement dependency ${sysmlName(goal.name)} to ${sysmlName(goal.refines)};`]
+      : []),
+    ...(goal.conflicts_with ?? [])
+      .filter((other) => {
+        const pair = [goal.name, other].sort().join(" ");
+        const first = !conflicts.has(pair);
+        conflicts.add(pair);
+        return first;
+      })
+      .map((other) => `#Conflict dependency ${sysmlName(goal.name)} to ${sysmlName(other)};`),
+  ]);
+};
+
+const printAllocation = (allocation: Allocation, index: ReferenceIndex) => {
+  const target = index.resolveElement(allocation.target);
+  return target
+    ? `allocate ${sysmlName(allocation.goal)} to ${sysmlPath(target.path.split("."))};`
+    : `// skipped: allocate ${allocation.goal} to ${allocation.target} (unknown target)`;
+};
+
+/**
+ * Writes the model in SysML v2 textual notation. The DarTwin stereotypes are
+ * declared as metadata definitions and applied as prefix annotations
+ * (`#TwinSystem part ...`); goals become requirements so that they can be the
+ * source of `allocate` relationships. A `#dartrans` block is not exported.
+ */
+export function darTwinToSysml(model: DarTwinModel): string {
+  const index = createReferenceIndex(model);
+  const name = sysmlName(model.name || "Untitled");
+  const body = [
+    ...model.systems.flatMap((system) => printTwinSystem(system, index)),
+    ...(model.connections ?? []).map((connection) =>
+      printConnection(
+        connection,
+        index.resolveQualifiedPort(connection.from),
+        index.resolveQualifiedPort(connection.to),
+        true
+      )
+    ),
+    ...model.goals.flatMap(printGoal),
+    ...printGoalRelations(model.goals),
+    ...model.allocations.map((allocation) => printAllocation(allocation, index)),
+    ...(model.dartrans ? ["// #dartrans is not part of the SysML export."] : []),
+  ];
+
+  return [
+    ...block(`package ${PROFILE_PACKAGE}`, [
+      ...STEREOTYPES.map((stereotype) => `metadata def ${stereotype};`),
+      ...PORT_KINDS.map((kind) => `port def ${portDefinition(kind)};`),
+    ]),
+    "",
+    ...block(`package ${name}`, [
+      `private import ${PROFILE_PACKAGE}::*;`,
+      "",
+      ...block(`#DarTwin part ${name}`, body),
+    ]),
+    "",
+  ].join("\n");
+}
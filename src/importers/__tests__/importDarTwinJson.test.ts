@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { toInterchangeJson } from "../../schema/interchange";
+import { importDarTwinJson } from "../importDarTwinJson";
+
+const spec = `#dartwin Greenhouse {
+  #twinsystem Strawberry {
+    #digitaltwin StrawberryDT { in port input : sensor; }
+    part Cultivation { out port MultiSensor : sensor; }
+    connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input;
+  }
+  #goal increase_yield { doc /* more fruit */ }
+  allocate increase_yield to Strawberry.StrawberryDT;
+}`;
+
+describe("importDarTwinJson", () => {
+  it("loads the JSON view's output back as equivalent DSL text", () => {
+    const model = parseDarTwin(spec);
+    const result = importDarTwinJson(JSON.stringify(model));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.model).toEqual(model);
+      expect(parseDarTwin(result.text)).toEqual(model);
+    }
+  });
+
+  it("reads exported documents and rejects unsupported format versions", () => {
+    const model = parseDarTwin(spec);
+    const exported = toInterchangeJson(model);
+
+    expect(importDarTwinJson(exported)).toMatchObject({ ok: true, model });
+    expect(importDarTwinJson(exported.replace('"version": "2.4"', '"version": "3.0"'))).toEqual({
+      ok: false,
+      errors: ['$.version: format version "3.0" is not supported, expected 2.4'],
+    });
+    expect(importDarTwinJson(exported.replace('"version": "2.4"', '"version": "2.5"'))).toEqual({
+      ok: false,
+      errors: ['$.version: format version "2.5" is not supported, expected 2.4'],
+    });
+    expect(importDarTwinJson(exported.replace('"version": "2.4"', '"version": "2.1"'))).toEqual({
+      ok: true,
+      model,
+      text: expect.any(String),
+    });
+  });
+
+  it("upgrades version 1.x documents, whose ports are plain names", () => {
+    const result = importDarTwinJson(
+      JSON.stringify({
+        version: "1.0",
+        type: "DarTwin",
+        name: "Greenhouse",
+        systems: [
+          {
+            name: "Strawberry",
+            digital_twins: [{ name: "StrawberryDT", ports: ["input"] }],
+            original_twins: [],
+            connections: [],
+          },
+        ],
+        goals: [],
+        allocations: [],
+        dartrans: {
+          after: {
+            systems: [
+              {
+                name: "Strawberry",
+                digital_twins: [{ name: "DT", ports: ["p"] }],
+                original_twins: [],
+                connections: [],
+              },
+            ],
+          },
+        },
+      })
+    );
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.model.systems[0]!.digital_twins[0]!.ports).toEqual([{ name: "input" }]);
+      expect(result.model.dartrans?.after?.systems?.[0]!.digital_twins[0]!.ports).toEqual([
+        { name: "p" },
+      ]);
+    }
+  });
+
+  it("reports the path of every value that does not match the model", () => {
+    const result = importDarTwinJson(
+      JSON.stringify({
+        type: "DarTwin",
+        name: "Greenhouse",
+        systems: [
+          {
+            name: "Strawberry",
+            digital_twins: [
+              { name: "StrawberryDT", ports: [{ name: "input", direction: "sideways" }, 3] },
+            ],
+            original_twins: [],
+            connections: [{ from: "a" }],
+          },
+        ],
+        goals: {},
+        allocations: [],
+        dartrans: { core: [] },
+      })
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        '$.systems[0].digital_twins[0].ports[0].direction: expected one of "in", "out", "inout", got string',
+        "$.systems[0].digital_twins[0].ports[1]: expected an object, got number",
+        "$.systems[0].connections[0].to: expected a string, got undefined",
+        "$.goals: expected an array, got object",
+        "$.dartrans.core: expected an object, got an array",
+      ],
+    });
+  });
+
+  it("rejects malformed JSON and names that cannot be written as DSL", () => {
+    expect(importDarTwinJson("{").ok).toBe(false);
+
+    const result = importDarTwinJson(
+      JSON.stringify({
+        type: "DarTwin",
+        name: "Green house",
+        systems: [],
+        goals: [],
+        allocations: [],
+      })
+    );
+    expect(result.ok).toBe(false);
+
+    const unnamed = { type: "DarTwin", name: "", systems: [], goals: [], allocations: [] };
+    expect(importDarTwinJson(JSON.stringify(unnamed)).ok).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { parseDarTwinDocument } from "../parser/parseDarTwin";
+import { printDarTwin } from "../printer/printDarTwin";
+import {
+  DARTWIN_FORMAT_VERSION,
+  isSupportedVersion,
+  upgradeInterchange,
+  type InterchangeHeader,
+} from "../schema/interchange";
+import { findDarTwinModelMismatches, type DarTwinModel } from "../types/dartwin";
+
+type InterchangeDocument = DarTwinModel & Partial<Record<keyof InterchangeHeader, unknown>>;
+
+export type JsonImportResult =
+  { ok: true; model: DarTwinModel; text: string } | { ok: false; errors: string[] };
+
+/**
+ * Reads a `DarTwinModel` JSON document, such as the one the JSON view shows,
+ * and turns it into DSL text for the editor. Errors name the JSON path that
+ * failed, e.g. `$.systems[0].ports: expected an array, got string`.
+ */
+export function importDarTwinJson(json: string): JsonImportResult {
+  let value: unknown;
+  try {
+    value = upgradeInterchange(JSON.parse(json));
+  } catch (error) {
+    return { ok: false, errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+
+  const mismatches = findDarTwinModelMismatches(value);
+  if (mismatches.length > 0) {
+    return {
+      ok: false,
+      errors: mismatches.map(
+        (mismatch) => `${mismatch.path}: expected ${mismatch.expected}, got ${mismatch.actual}`
+      ),
+    };
+  }
+
+  // The `$schema`/`version` header of exported documents is not part of the model.
+  const { $schema: _schema, version, ...model } = value as InterchangeDocument;
+  if (version !== undefined && (typeof version !== "string" || !isSupportedVersion(version))) {
+    return {
+      ok: false,
+      errors: [
+        `$.version: format version ${JSON.stringify(version)} is not supported, expected ${DARTWIN_FORMAT_VERSION}`,
+      ],
+    };
+  }
+
+  const text = printDarTwin(model);
+  // Names that are not DSL identifiers (spaces, quotes, ...) would print as text that does
+  // not parse back, so they are rejected here rather than loaded as a broken document.
+  const syntaxErrors = parseDarTwinDocument(text).diagnostics.filter(
+    (diagnostic) => diagnostic.severity === "error"
+  );
+  if (syntaxErrors.length > 0) {
+    return {
+      ok: false,
+      errors: syntaxErrors.map(
+        (diagnostic) =>
+          `The model cannot be written as DarTwin text: ${diagnostic.message} (line ${diagnostic.range.start.line})`
+      ),
+    };
+  }
+
+  return { ok: true, model, text };
+}
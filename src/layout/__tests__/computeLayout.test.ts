@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+
+import { darTwinToReactFlow } from "../../adapters/darTwinToReactFlow";
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { computeLayout } from "../computeLayout";
+
+describe("computeLayout", () => {
+  it("renders parts and attaches connections to the facing side of each port", () => {
+    const graph = darTwinToReactFlow(
+      parseDarTwin(`#dartwin Farm {
+  #twinsystem Greenhouse {
+    #digitaltwin ClimateDT { out port command; }
+    part Actuators { in port Vent; }
+    connect ClimateDT.command to Greenhouse.Actuators.Vent;
+  }
+}`)
+    );
+    const { nodes, edges } = computeLayout(graph);
+
+    expect(nodes.find((node) => node.type === "at")).toMatchObject({
+      data: { label: "Actuators" },
+      style: { width: expect.any(Number), height: expect.any(Number) },
+    });
+    // The layered layout puts the part below the digital twin that drives it.
+    expect(edges[0]).toMatchObject({ sourceHandle: "bottom", targetHandle: "top" });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { darTwinToReactFlow } from "../../adapters/darTwinToReactFlow";
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { layeredLayout } from "../layeredLayout";
+import type { Placement } from "../placement";
+
+const graph = darTwinToReactFlow(
+  parseDarTwin(`#dartwin Farm {
+  #twinsystem Greenhouse {
+    #digitaltwin ClimateDT { port input; port output; port status; }
+    #digitaltwin IrrigationDT { port input; port output; }
+    #digitaltwin YieldDT { }
+    part Sensors { port Temperature; port Humidity; port Moisture; }
+    part Actuators { port Vent; port Valve; }
+    connect Greenhouse.Sensors.Temperature to ClimateDT.input;
+    connect Greenhouse.Sensors.Humidity to ClimateDT.input;
+    connect Greenhouse.Sensors.Moisture to IrrigationDT.input;
+    connect ClimateDT.output to Greenhouse.Actuators.Vent;
+    connect IrrigationDT.output to Greenhouse.Actuators.Valve;
+  }
+  #twinsystem Barn {
+    #digitaltwin HerdDT { port input; }
+    part Collars { port Gps; }
+    connect Barn.Collars.Gps to HerdDT.input;
+  }
+  #goal increase_yield;
+  #goal save_water;
+  #goal animal_welfare;
+  allocate increase_yield to Greenhouse.YieldDT;
+  allocate save_water to Greenhouse.IrrigationDT;
+  allocate animal_welfare to Barn.HerdDT;
+}`)
+);
+
+const overlaps = (a: Placement, b: Placement) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const contains = (outer: Placement, inner: Placement) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+describe("layeredLayout", () => {
+  const placements = layeredLayout(graph);
+  const placed = graph.nodes.filter((node) => placements[node.id]);
+
+  it("places every node except the DarTwin root", () => {
+    expect(placed.map((node) => node.type)).not.toContain("dartwin");
+    expect(placed).toHaveLength(graph.nodes.length - 1);
+  });
+
+  it("keeps children inside their container", () => {
+    placed
+      .filter((node) => node.parentId && placements[node.parentId])
+      .forEach((node) =>
+        expect(contains(placements[node.parentId!]!, placements[node.id]!), node.id).toBe(true)
+      );
+  });
+
+  it("never overlaps siblings", () => {
+    placed.forEach((a) =>
+      placed
+        .filter((b) => b !== a && b.parentId === a.parentId)
+        .filter((b) => placements[a.id]!.width > 0 && placements[b.id]!.width > 0)
+        .forEach((b) =>
+          expect(overlaps(placements[a.id]!, placements[b.id]!), `${a.id} / ${b.id}`).toBe(false)
+        )
+    );
+  });
+
+  it("puts goals above the twin systems they are allocated to", () => {
+    const lowestGoal = Math.max(
+      ...placed.filter((node) => node.type === "goal").map((node) => placements[node.id]!.y)
+    );
+    const highestSystem = Math.min(
+      ...placed.filter((node) => node.type === "twinsystem").map((node) => placements[node.id]!.y)
+    );
+    expect(lowestGoal).toBeLessThan(highestSystem);
+  });
+
+  it("orders goals to avoid crossing allocation edges", () => {
+    const x = (ref: string) => placements[graph.nodes.find((node) => node.ref === ref)!.id]!.x;
+    const goals = ["increase_yield", "save_water", "animal_welfare"].sort((a, b) => x(a) - x(b));
+    const systems = ["Greenhouse", "Barn"].sort((a, b) => x(a) - x(b));
+
+    expect(goals.indexOf("animal_welfare") === 2).toBe(systems.indexOf("Barn") === 1);
+  });
+
+  it("layers twin systems along the connections between them", () => {
+    const farm = darTwinToReactFlow(
+      parseDarTwin(`#dartwin Farm {
+  #twinsystem North { #digitaltwin ClimateDT { in port schedule; } }
+  #twinsystem Scheduler { #digitaltwin PlanDT { out port plan; } }
+  #twinsystem South { #digitaltwin ClimateDT { in port schedule; } }
+  connect Scheduler.PlanDT.plan to North.ClimateDT.schedule;
+  connect Scheduler.PlanDT.plan to South.ClimateDT.schedule;
+}`)
+    );
+    const farmPlacements = layeredLayout(farm);
+    const box = (ref: string) => farmPlacements[farm.nodes.find((node) => node.ref === ref)!.id]!;
+
+    ["North", "South"].forEach((system) => {
+      expect(box("Scheduler").y + box("Scheduler").height).toBeLessThan(box(system).y);
+    });
+    expect(overlaps(box("North"), box("South"))).toBe(false);
+  });
+
+  it("puts goals above their subgoals and keeps conflicting goals in one row", () => {
+    const tree = darTwinToReactFlow(
+      parseDarTwin(`#dartwin Farm {
+  #twinsystem Greenhouse { #digitaltwin IrrigationDT { } #digitaltwin VentilationDT { } }
+  #goal increase_yield;
+  #goal optimize_irrigation refines increase_yield conflicts with optimize_ventilation;
+  #goal optimize_ventilation refines increase_yield;
+  allocate optimize_irrigation to Greenhouse.IrrigationDT;
+  allocate optimize_ventilation to Greenhouse.VentilationDT;
+}`)
+    );
+    const treePlacements = layeredLayout(tree);
+    const box = (ref: string) => treePlacements[tree.nodes.find((node) => node.ref === ref)!.id]!;
+
+    ["optimize_irrigation", "optimize_ventilation"].forEach((subgoal) => {
+      expect(box("increase_yield").y + box("increase_yield").height).toBeLessThan(box(subgoal).y);
+      expect(box(subgoal).y + box(subgoal).height).toBeLessThan(box("Greenhouse").y);
+    });
+    expect(box("optimize_irrigation").y).toBe(box("optimize_ventilation").y);
+  });
+});
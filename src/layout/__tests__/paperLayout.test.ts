@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+
+import { darTwinToReactFlow } from "../../adapters/darTwinToReactFlow";
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { paperLayout } from "../paperLayout";
+import type { Placement } from "../placement";
+
+const layout = (source: string) => {
+  const graph = darTwinToReactFlow(parseDarTwin(source));
+  const placements = paperLayout(graph);
+  const byRef = (ref: string) => {
+    const node = graph.nodes.find((candidate) => candidate.ref === ref);
+    return placements[node!.id]!;
+  };
+  return { graph, placements, byRef };
+};
+
+const contains = (outer: Placement, inner: Placement) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+const overlaps = (a: Placement, b: Placement) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+describe("paperLayout", () => {
+  it("grows a twin system around all of its digital twins and ports", () => {
+    const { graph, placements, byRef } = layout(`#dartwin Farm {
+  #twinsystem Greenhouse {
+    #digitaltwin ClimateDT { port input; port output; port status; port alarm; }
+    #digitaltwin IrrigationDT { port input; port output; }
+    part Sensors { port Temperature; port Humidity; }
+    connect Greenhouse.Sensors.Temperature to ClimateDT.input;
+  }
+}`);
+    const system = byRef("Greenhouse");
+    graph.nodes
+      .filter((node) => node.parentId && ["dt", "port"].includes(node.type))
+      .forEach((node) => expect(contains(system, placements[node.id]!)).toBe(true));
+    expect(overlaps(byRef("Greenhouse.ClimateDT"), byRef("Greenhouse.IrrigationDT"))).toBe(false);
+  });
+
+  it("widens boxes with long labels and keeps neighbours apart", () => {
+    const { byRef } = layout(`#dartwin Farm {
+  #twinsystem AVeryLongTwinSystemNameThatNeedsMoreRoomThanTheDefaultBox {
+    #digitaltwin AnEquallyVerboseDigitalTwinNameForTheClimateControl { }
+  }
+  #twinsystem Barn { #digitaltwin HerdDT { } }
+  #goal a_goal_whose_name_is_far_too_long_for_the_default_goal_box;
+  #goal short;
+}`);
+    const system = byRef("AVeryLongTwinSystemNameThatNeedsMoreRoomThanTheDefaultBox");
+    const dt = byRef(
+      "AVeryLongTwinSystemNameThatNeedsMoreRoomThanTheDefaultBox.AnEquallyVerboseDigitalTwinNameForTheClimateControl"
+    );
+    expect(system.width).toBeGreaterThan(520);
+    expect(dt.width).toBeGreaterThan(320);
+    expect(contains(system, dt)).toBe(true);
+    expect(overlaps(system, byRef("Barn"))).toBe(false);
+    expect(
+      overlaps(byRef("a_goal_whose_name_is_far_too_long_for_the_default_goal_box"), byRef("short"))
+    ).toBe(false);
+  });
+
+  it("draws parts as boxes that hold their own ports", () => {
+    const { graph, placements, byRef } = layout(`#dartwin Farm {
+  #twinsystem Greenhouse {
+    #digitaltwin ClimateDT { in port reading; out port vent; out port valve; }
+    part Sensors { out port Temperature; }
+    part Actuators { in port Valve; in port Vent; }
+    connect Greenhouse.Sensors.Temperature to ClimateDT.reading;
+    connect ClimateDT.vent to Greenhouse.Actuators.Vent;
+    connect ClimateDT.valve to Greenhouse.Actuators.Valve;
+  }
+}`);
+    const system = byRef("Greenhouse");
+    const dt = byRef("Greenhouse.ClimateDT");
+    ["Greenhouse.Sensors", "Greenhouse.Actuators"].forEach((ref) => {
+      const part = byRef(ref);
+      expect(part.width).toBeGreaterThan(0);
+      expect(contains(system, part)).toBe(true);
+      expect(overlaps(part, dt)).toBe(false);
+      graph.nodes
+        .filter((node) => node.ref?.startsWith(`${ref}.`))
+        .forEach((port) => expect(contains(part, placements[port.id]!)).toBe(true));
+    });
+    // Part ports follow the order of the digital twin ports they are connected to.
+    expect(
+      Math.sign(byRef("Greenhouse.Actuators.Vent").x - byRef("Greenhouse.Actuators.Valve").x)
+    ).toBe(Math.sign(byRef("Greenhouse.ClimateDT.vent").x - byRef("Greenhouse.ClimateDT.valve").x));
+  });
+
+  it("draws nested parts inside their parent part", () => {
+    const { graph, placements, byRef } = layout(`#dartwin Farm {
+  #twinsystem Site {
+    #digitaltwin SiteDT { in port moisture; in port level; }
+    part Greenhouse {
+      port door;
+      part Bed { part SoilProbe { out port reading; } part Gauge { out port level; } }
+    }
+    connect Greenhouse.Bed.SoilProbe.reading to SiteDT.moisture;
+    connect Greenhouse.Bed.Gauge.level to SiteDT.level;
+  }
+}`);
+    const greenhouse = byRef("Site.Greenhouse");
+    const bed = byRef("Site.Greenhouse.Bed");
+    const probe = byRef("Site.Greenhouse.Bed.SoilProbe");
+    const gauge = byRef("Site.Greenhouse.Bed.Gauge");
+    expect(contains(byRef("Site"), greenhouse)).toBe(true);
+    expect(contains(greenhouse, bed)).toBe(true);
+    expect(contains(bed, probe)).toBe(true);
+    expect(contains(bed, gauge)).toBe(true);
+    expect(contains(probe, byRef("Site.Greenhouse.Bed.SoilProbe.reading"))).toBe(true);
+    expect(overlaps(probe, gauge)).toBe(false);
+    expect(overlaps(bed, byRef("Site.Greenhouse.door"))).toBe(false);
+    // Every element except the DarTwin root is placed.
+    expect(Object.keys(placements)).toHaveLength(graph.nodes.length - 1);
+  });
+
+  it("orders twin systems along the connections between them", () => {
+    const { byRef } = layout(`#dartwin Farm {
+  #twinsystem Alpha { #digitaltwin ClimateDT { in port schedule; } }
+  #twinsystem Beta { #digitaltwin ClimateDT { in port schedule; } }
+  #twinsystem Zeta { #digitaltwin PlanDT { out port plan; } }
+  connect Zeta.PlanDT.plan to Alpha.ClimateDT.schedule;
+  connect Beta.ClimateDT.schedule to Zeta.PlanDT.plan;
+}`);
+    // The second connection runs backwards from `in` to `out`, so Zeta feeds both systems.
+    expect(byRef("Zeta").x).toBeLessThan(byRef("Alpha").x);
+    expect(byRef("Alpha").x).toBeLessThan(byRef("Beta").x);
+  });
+
+  it("draws goals as refinement trees above the twin systems", () => {
+    const { byRef } = layout(`#dartwin Farm {
+  #twinsystem Greenhouse { #digitaltwin IrrigationDT { } }
+  #goal increase_yield;
+  #goal optimize_irrigation refines increase_yield;
+  #goal optimize_ventilation refines increase_yield conflicts with optimize_irrigation;
+  #goal save_water;
+  allocate optimize_irrigation to Greenhouse.IrrigationDT;
+}`);
+    const root = byRef("increase_yield");
+    const subgoals = [byRef("optimize_irrigation"), byRef("optimize_ventilation")];
+
+    expect(byRef("save_water").y).toBe(root.y);
+    subgoals.forEach((subgoal) => {
+      expect(subgoal.y).toBeGreaterThan(root.y + root.height);
+      expect(subgoal.y + subgoal.height).toBeLessThan(byRef("Greenhouse").y);
+    });
+    expect(overlaps(subgoals[0]!, subgoals[1]!)).toBe(false);
+    const centre = (box: Placement) => box.x + box.width / 2;
+    expect(centre(root)).toBeGreaterThan(centre(subgoals[0]!));
+    expect(centre(root)).toBeLessThan(centre(subgoals[1]!));
+  });
+
+  it("keeps each goal centred over its subgoals when wide goals share a row", () => {
+    const { graph, byRef } = layout(`#dartwin Farm {
+  #goal alpha;
+  #goal alpha_first_subgoal_with_a_rather_long_name refines alpha;
+  #goal alpha_second_subgoal_with_a_rather_long_name refines alpha;
+  #goal beta_root_goal_whose_name_is_wider_than_its_only_subgoal;
+  #goal beta_sub refines beta_root_goal_whose_name_is_wider_than_its_only_subgoal;
+  #goal gamma;
+  #goal gamma_subgoal_with_an_equally_long_descriptive_name refines gamma;
+}`);
+    const centre = (box: Placement) => box.x + box.width / 2;
+    const span = (boxes: Placement[]) =>
+      (Math.min(...boxes.map((box) => box.x)) +
+        Math.max(...boxes.map((box) => box.x + box.width))) /
+      2;
+    expect(centre(byRef("alpha"))).toBeCloseTo(
+      span([
+        byRef("alpha_first_subgoal_with_a_rather_long_name"),
+        byRef("alpha_second_subgoal_with_a_rather_long_name"),
+      ])
+    );
+    expect(centre(byRef("beta_root_goal_whose_name_is_wider_than_its_only_subgoal"))).toBeCloseTo(
+      centre(byRef("beta_sub"))
+    );
+    expect(centre(byRef("gamma"))).toBeCloseTo(
+      centre(byRef("gamma_subgoal_with_an_equally_long_descriptive_name"))
+    );
+
+    const goals = graph.nodes
+      .filter((node) => node.type === "goal")
+      .map((node) => byRef(node.ref!));
+    goals.forEach((a, i) => goals.slice(i + 1).forEach((b) => expect(overlaps(a, b)).toBe(false)));
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+
+import { annotateEvaluation, darTwinToReactFlow } from "../../adapters/darTwinToReactFlow";
+import { evaluateGoals } from "../../evaluation/evaluateGoals";
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { computeLayout } from "../computeLayout";
+import { mergeLayoutNodes } from "../useLayout";
+
+describe("mergeLayoutNodes", () => {
+  it("passes evaluation results to dragged nodes once measurements are loaded", () => {
+    const model = parseDarTwin(`#dartwin Farm {
+  #twinsystem Greenhouse { #digitaltwin IrrigationDT { } }
+  #goal save_water { metric water_consumption < 1000; }
+  allocate save_water to Greenhouse;
+}`);
+    const graph = darTwinToReactFlow(model);
+    const dragged = computeLayout(graph).nodes.map((node) =>
+      node.type === "goal" ? { ...node, position: { x: 5, y: 7 } } : node
+    );
+
+    const evaluated = annotateEvaluation(
+      graph,
+      evaluateGoals(model, { after: new Map([["water_consumption", 900]]), before: new Map() })
+    );
+    const fresh = computeLayout(evaluated).nodes;
+    const goal = mergeLayoutNodes(dragged, fresh).find((node) => node.type === "goal");
+
+    expect(goal).toMatchObject({
+      position: { x: 5, y: 7 },
+      data: { evaluation: "pass", criteria: ["Water Consumption < 1000"] },
+      style: fresh.find((node) => node.type === "goal")?.style,
+    });
+    expect(Number(goal?.style?.height)).toBeGreaterThan(
+      Number(dragged.find((node) => node.type === "goal")?.style?.height)
+    );
+  });
+});
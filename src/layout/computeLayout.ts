@@ -1,254 +1,15 @@
 import { MarkerType, type Edge, type Node } from "reactflow";
 import type { DarTwinGraph, DarTwinNode, DarTwinEdge } from "../types/reactflow";
-import { formatLabel, formatPortLabel } from "../utils/format";
+import { criterionLines, displayLabel } from "./labels";
+import { layeredLayout } from "./layeredLayout";
+import { paperLayout } from "./paperLayout";
+import { PORT_HANDLES, type NodePlacements, type PortHandle } from "./placement";
 
-const CANVAS_MARGIN_X = 120;
-const GOAL_ROW_Y = 60;
-const GOAL_WIDTH = 240;
-const GOAL_HEIGHT = 120;
-const GOAL_HORIZONTAL_GAP = 80;
+export type LayoutPreset = "layered" | "paper";
 
-const TWIN_ROW_Y = 240;
-const TWIN_WIDTH = 520;
-const TWIN_HEIGHT = 340;
-const TWIN_HORIZONTAL_GAP = 160;
-
-const DT_WIDTH = 320;
-const DT_HEIGHT = 160;
-const DT_GAP = 60;
-
-const PORT_WIDTH = 120;
-const PORT_HEIGHT = 56;
-
-const SENSOR_GAP = 70;
-const SENSOR_CHAIN_GAP = 80;
-const SENSOR_STACK_GAP = 28;
-
-const ACTUATOR_VERTICAL_GAP = 70;
-const ACTUATOR_CHAIN_GAP = 90;
-const ACTUATOR_HORIZONTAL_GAP = 48;
-
-const SIDE_PORT_GAP = 100;
-const SIDE_PORT_STACK_GAP = 36;
-
-const TWIN_TOP_PADDING = 40;
-const TWIN_SIDE_GAP = 120;
-
-interface PositionMap {
-  [id: string]: { x: number; y: number };
-}
-
-const groupByParent = (nodes: DarTwinNode[], parentId: string) =>
-  nodes.filter((node) => node.parentId === parentId);
-
-const byLabel = (a: DarTwinNode, b: DarTwinNode) => a.label.localeCompare(b.label);
-
-const isSensorPort = (node: DarTwinNode) => /sensor|input/i.test(node.label);
-
-const isActuatorPort = (node: DarTwinNode) => /actuator|output/i.test(node.label);
-
-const NODE_DIMENSIONS: Partial<Record<DarTwinNode["type"], { width: number; height: number }>> = {
-  goal: { width: GOAL_WIDTH, height: GOAL_HEIGHT },
-  twinsystem: { width: TWIN_WIDTH, height: TWIN_HEIGHT },
-  dt: { width: DT_WIDTH, height: DT_HEIGHT },
-  at: { width: 0, height: 0 },
-  port: { width: PORT_WIDTH, height: PORT_HEIGHT },
-};
-
-const setGoalPositions = (goals: DarTwinNode[], positions: PositionMap) => {
-  goals
-    .slice()
-    .sort(byLabel)
-    .forEach((goal, index) => {
-      positions[goal.id] = {
-        x: CANVAS_MARGIN_X + index * (GOAL_WIDTH + GOAL_HORIZONTAL_GAP),
-        y: GOAL_ROW_Y,
-      };
-    });
-};
-
-interface DigitalTwinAnchors {
-  sensorBaseX: number;
-  sensorY: number;
-  actuatorStartX: number;
-  actuatorY: number;
-  actuatorCount: number;
-}
-
-const layoutDigitalTwin = (
-  twinPosition: { x: number; y: number },
-  dt: DarTwinNode,
-  dtIndex: number,
-  dtCount: number,
-  allPorts: DarTwinNode[],
-  positions: PositionMap
-): DigitalTwinAnchors => {
-  const dtSpanWidth = dtCount * DT_WIDTH + Math.max(0, dtCount - 1) * DT_GAP;
-  const dtStartX = twinPosition.x + (TWIN_WIDTH - dtSpanWidth) / 2;
-  const dtX = dtStartX + dtIndex * (DT_WIDTH + DT_GAP);
-  const dtY = twinPosition.y + (TWIN_HEIGHT - DT_HEIGHT) / 2;
-
-  positions[dt.id] = { x: dtX, y: dtY };
-
-  const dtPorts = groupByParent(allPorts, dt.id).sort(byLabel);
-  const sensorPorts = dtPorts.filter(isSensorPort);
-  const actuatorPorts = dtPorts.filter(isActuatorPort);
-  const remainingPorts = dtPorts.filter(
-    (port) => !sensorPorts.includes(port) && !actuatorPorts.includes(port)
-  );
-
-  const sensorBaseX = dtX + DT_WIDTH + SENSOR_GAP;
-  const sensorY = dtY + DT_HEIGHT / 2 - PORT_HEIGHT / 2;
-  sensorPorts.forEach((port, index) => {
-    positions[port.id] = {
-      x: sensorBaseX + index * (PORT_WIDTH + SENSOR_STACK_GAP),
-      y: sensorY,
-    };
-  });
-
-  const actuatorRowWidth =
-    actuatorPorts.length * PORT_WIDTH +
-    Math.max(0, actuatorPorts.length - 1) * ACTUATOR_HORIZONTAL_GAP;
-  const actuatorStartX =
-    actuatorPorts.length > 0
-      ? dtX + (DT_WIDTH - actuatorRowWidth) / 2
-      : dtX + (DT_WIDTH - PORT_WIDTH) / 2;
-  const actuatorY = dtY + DT_HEIGHT + ACTUATOR_VERTICAL_GAP;
-  actuatorPorts.forEach((port, index) => {
-    positions[port.id] = {
-      x: actuatorStartX + index * (PORT_WIDTH + ACTUATOR_HORIZONTAL_GAP),
-      y: actuatorY,
-    };
-  });
-
-  if (remainingPorts.length > 0) {
-    const totalHeight =
-      remainingPorts.length * PORT_HEIGHT +
-      Math.max(0, remainingPorts.length - 1) * SIDE_PORT_STACK_GAP;
-    const startY = dtY + (DT_HEIGHT - totalHeight) / 2;
-    const leftX = dtX - SIDE_PORT_GAP - PORT_WIDTH;
-    remainingPorts.forEach((port, index) => {
-      positions[port.id] = {
-        x: leftX,
-        y: startY + index * (PORT_HEIGHT + SIDE_PORT_STACK_GAP),
-      };
-    });
-  }
-
-  return {
-    sensorBaseX,
-    sensorY,
-    actuatorStartX,
-    actuatorY,
-    actuatorCount: actuatorPorts.length,
-  };
-};
-
-const layoutTwinPorts = (
-  twin: DarTwinNode,
-  allPorts: DarTwinNode[],
-  anchors: DigitalTwinAnchors | undefined,
-  positions: PositionMap,
-  portParentIds: string[]
-) => {
-  const twinPorts = portParentIds
-    .flatMap((parentId) => groupByParent(allPorts, parentId))
-    .sort(byLabel);
-  const sensorPorts = twinPorts.filter(isSensorPort);
-  const actuatorPorts = twinPorts.filter(isActuatorPort);
-  const remainingPorts = twinPorts.filter(
-    (port) => !sensorPorts.includes(port) && !actuatorPorts.includes(port)
-  );
-
-  const twinPosition = positions[twin.id] ?? { x: CANVAS_MARGIN_X, y: TWIN_ROW_Y };
-  const baseSensorX = anchors
-    ? anchors.sensorBaseX + PORT_WIDTH + SENSOR_CHAIN_GAP
-    : twinDefaultSensorX(twinPosition);
-  const baseSensorY = anchors
-    ? anchors.sensorY
-    : twinPosition.y + TWIN_HEIGHT / 2 - PORT_HEIGHT / 2;
-  sensorPorts.forEach((port, index) => {
-    positions[port.id] = {
-      x: baseSensorX + index * (PORT_WIDTH + SENSOR_STACK_GAP),
-      y: baseSensorY,
-    };
-  });
-
-  const twinActuatorRowWidth =
-    actuatorPorts.length * PORT_WIDTH +
-    Math.max(0, actuatorPorts.length - 1) * ACTUATOR_HORIZONTAL_GAP;
-  const fallbackActuatorStartX =
-    actuatorPorts.length > 0
-      ? twinPosition.x + (TWIN_WIDTH - twinActuatorRowWidth) / 2
-      : twinPosition.x + (TWIN_WIDTH - PORT_WIDTH) / 2;
-  const baseActuatorStartX =
-    anchors && actuatorPorts.length === anchors.actuatorCount
-      ? anchors.actuatorStartX
-      : fallbackActuatorStartX;
-  const actuatorY =
-    (anchors?.actuatorY ?? twinPosition.y + TWIN_HEIGHT / 2) + PORT_HEIGHT + ACTUATOR_CHAIN_GAP;
-  actuatorPorts.forEach((port, index) => {
-    positions[port.id] = {
-      x: baseActuatorStartX + index * (PORT_WIDTH + ACTUATOR_HORIZONTAL_GAP),
-      y: actuatorY,
-    };
-  });
-
-  if (remainingPorts.length > 0) {
-    const baseX = twinPosition.x - TWIN_SIDE_GAP - PORT_WIDTH;
-    remainingPorts.forEach((port, index) => {
-      positions[port.id] = {
-        x: baseX,
-        y:
-          twinPosition.y +
-          TWIN_TOP_PADDING +
-          index * (PORT_HEIGHT + SIDE_PORT_STACK_GAP),
-      };
-    });
-  }
-};
-
-const twinDefaultSensorX = (twinPosition: { x: number; y: number }) =>
-  twinPosition.x + TWIN_WIDTH + SENSOR_GAP;
-
-const setTwinHierarchyPositions = (
-  twins: DarTwinNode[],
-  allNodes: DarTwinNode[],
-  positions: PositionMap
-) => {
-  const dts = allNodes.filter((node) => node.type === "dt");
-  const ports = allNodes.filter((node) => node.type === "port");
-  const ats = allNodes.filter((node) => node.type === "at");
-
-  twins
-    .slice()
-    .sort(byLabel)
-    .forEach((twin, twinIndex) => {
-      const twinX = CANVAS_MARGIN_X + twinIndex * (TWIN_WIDTH + TWIN_HORIZONTAL_GAP);
-      const twinY = TWIN_ROW_Y;
-      positions[twin.id] = { x: twinX, y: twinY };
-
-      const twinDigitalTwins = groupByParent(dts, twin.id).sort(byLabel);
-      const anchors = twinDigitalTwins.map((dt, index) =>
-        layoutDigitalTwin({ x: twinX, y: twinY }, dt, index, twinDigitalTwins.length, ports, positions)
-      );
-
-      const twinOriginalTwins = groupByParent(ats, twin.id).sort(byLabel);
-      twinOriginalTwins.forEach((originalTwin) => {
-        positions[originalTwin.id] = { x: twinX, y: twinY };
-      });
-
-      const directTwinPorts = groupByParent(ports, twin.id);
-      const portParentIds = [
-        ...(directTwinPorts.length > 0 ? [twin.id] : []),
-        ...twinOriginalTwins.map((originalTwin) => originalTwin.id),
-      ];
-
-      const targetPortParents = portParentIds.length > 0 ? portParentIds : [twin.id];
-
-      const primaryAnchor = anchors[0];
-      layoutTwinPorts(twin, ports, primaryAnchor, positions, targetPortParents);
-    });
+export const LAYOUT_PRESETS: Record<LayoutPreset, (graph: DarTwinGraph) => NodePlacements> = {
+  layered: layeredLayout,
+  paper: paperLayout,
 };
 
 const fallbackPosition = (index: number): { x: number; y: number } => ({
@@ -256,24 +17,38 @@ const fallbackPosition = (index: number): { x: number; y: number } => ({
   y: 160 + Math.floor(index / 4) * 140,
 });
 
+const DIFF_COLORS: Record<string, string> = {
+  added: "#1b7837",
+  removed: "#c62828",
+  changed: "#b26a00",
+};
+
+const nodeClassName = (node: DarTwinNode) => {
+  const classes = [
+    node.core ? "core-element" : "",
+    node.diff && node.diff !== "unchanged" ? `diff-${node.diff}` : "",
+  ].filter(Boolean);
+  return classes.length > 0 ? classes.join(" ") : undefined;
+};
+
 const buildNode = (
   node: DarTwinNode,
   index: number,
-  positions: PositionMap
+  placements: NodePlacements
 ): Node => {
-  const abs = positions[node.id] ?? fallbackPosition(index);
-  const dims = NODE_DIMENSIONS[node.type];
-  const style = dims ? { width: dims.width, height: dims.height } : undefined;
+  const placement = placements[node.id];
+  const abs = placement ?? fallbackPosition(index);
+  const style = placement ? { width: placement.width, height: placement.height } : undefined;
 
   // Default to absolute position
-  let position = { ...abs };
+  let position = { x: abs.x, y: abs.y };
 
   // Convert to relative coordinates if node has a parent
-  if (node.parentId && positions[node.parentId]) {
-    const parentPos = positions[node.parentId];
+  const parentPlacement = node.parentId ? placements[node.parentId] : undefined;
+  if (parentPlacement) {
     position = {
-      x: abs.x - parentPos.x,
-      y: abs.y - parentPos.y,
+      x: abs.x - parentPlacement.x,
+      y: abs.y - parentPlacement.y,
     };
   }
 
@@ -281,9 +56,11 @@ const buildNode = (
     id: node.id,
     position,
     style,
+    className: nodeClassName(node),
     data: {
       kind: node.type,
       parent: node.parentId,
+      ref: node.ref,
     },
     parentNode: node.parentId,
   };
@@ -293,7 +70,13 @@ const buildNode = (
       return {
         ...base,
         type: "goal",
-        data: { ...base.data, label: formatLabel(node.label), doc: node.doc },
+        data: {
+          ...base.data,
+          label: displayLabel(node),
+          doc: node.doc,
+          criteria: criterionLines(node),
+          evaluation: node.evaluation,
+        },
       } as Node;
 
     case "twinsystem":
@@ -301,24 +84,21 @@ const buildNode = (
         ...base,
         type: "twinsystem",
         extent: "parent", // key: this allows nesting
-        data: { ...base.data, label: formatLabel(node.label) },
+        data: { ...base.data, label: displayLabel(node) },
       } as Node;
 
     case "dt":
       return {
         ...base,
         type: "dt",
-        data: {
-          ...base.data,
-          label: formatLabel(node.label).replace(/Dt\b/i, "DT"),
-        },
+        data: { ...base.data, label: displayLabel(node) },
       } as Node;
 
     case "at":
       return {
         ...base,
         type: "at",
-        data: { ...base.data, label: formatLabel(node.label) },
+        data: { ...base.data, label: displayLabel(node) },
       } as Node;
 
     case "port":
@@ -328,7 +108,9 @@ const buildNode = (
         data: {
           ...base.data,
           label: node.label,
-          caption: formatPortLabel(node.label),
+          caption: displayLabel(node),
+          direction: node.direction,
+          portKind: node.portKind,
         },
       } as Node;
 
@@ -336,47 +118,90 @@ const buildNode = (
       return {
         ...base,
         type: "dartwin",
-        data: { ...base.data, label: formatLabel(node.label) },
+        data: { ...base.data, label: displayLabel(node) },
       } as Node;
   }
 };
 
+/** Node types with a handle on their top and on their bottom side. */
+const TWO_SIDED: ReadonlySet<DarTwinNode["type"]> = new Set(["port", "goal"]);
+
+/**
+ * An edge leaves an upper port or goal through its bottom handle and enters a
+ * lower one through its top handle, so that it does not cut across the node.
+ * Goals in the same row, such as two that conflict, are joined below the row.
+ */
+const sideHandles = (
+  edge: DarTwinEdge,
+  nodeTypes: Map<string, DarTwinNode["type"]>,
+  placements: NodePlacements
+): { sourceHandle?: PortHandle; targetHandle?: PortHandle } => {
+  const source = placements[edge.source];
+  const target = placements[edge.target];
+  if (!source || !target) {
+    return {};
+  }
+  const sourceType = nodeTypes.get(edge.source)!;
+  const targetType = nodeTypes.get(edge.target)!;
+  const sourceCentre = source.y + source.height / 2;
+  const targetCentre = target.y + target.height / 2;
+  const sameRow = sourceType === "goal" && targetType === "goal" && sourceCentre === targetCentre;
+  const downwards = sourceCentre <= targetCentre;
+  return {
+    ...(TWO_SIDED.has(sourceType)
+      ? { sourceHandle: downwards || sameRow ? PORT_HANDLES.bottom : PORT_HANDLES.top }
+      : {}),
+    ...(TWO_SIDED.has(targetType)
+      ? { targetHandle: downwards && !sameRow ? PORT_HANDLES.top : PORT_HANDLES.bottom }
+      : {}),
+  };
+};
 
-const buildEdge = (edge: DarTwinEdge): Edge => ({
-  id: edge.id,
-  source: edge.source,
-  target: edge.target,
-  label: edge.label,
-  style: {
-    stroke: "#000",
-    strokeWidth: 1.2,
-    strokeDasharray: edge.label === "allocate" ? "6 4" : undefined,
-  },
-  labelStyle: {
-    fill: "#000",
-    fontFamily: '"Times New Roman", serif',
-    fontSize: 11,
-    textTransform: "lowercase",
-  },
-  markerEnd: { type: MarkerType.ArrowClosed, color: "#000" },
-});
+/** Allocations are dashed; conflicts are dotted and have no direction. */
+const EDGE_DASHES: Record<string, string> = { allocate: "6 4", conflicts: "2 4" };
+
+const buildEdge = (
+  edge: DarTwinEdge,
+  nodeTypes: Map<string, DarTwinNode["type"]>,
+  placements: NodePlacements
+): Edge => {
+  const color = (edge.diff && DIFF_COLORS[edge.diff]) || "#000";
+  const arrow = { type: MarkerType.ArrowClosed, color };
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    ...sideHandles(edge, nodeTypes, placements),
+    label: edge.label,
+    style: {
+      stroke: color,
+      strokeWidth: edge.core ? 2.4 : 1.2,
+      strokeDasharray: edge.label ? EDGE_DASHES[edge.label] : undefined,
+    },
+    labelStyle: {
+      fill: "#000",
+      fontFamily: '"Times New Roman", serif',
+      fontSize: 11,
+      textTransform: "lowercase",
+    },
+    markerEnd: edge.flow === "backward" || edge.label === "conflicts" ? undefined : arrow,
+    markerStart: edge.flow === "backward" || edge.flow === "both" ? arrow : undefined,
+  };
+};
 
 export interface LayoutResult {
   nodes: Node[];
   edges: Edge[];
 }
 
-export function computeLayout(parsed: DarTwinGraph): LayoutResult {
-  const positions: PositionMap = {};
-  const goals = parsed.nodes.filter((n) => n.type === "goal");
-  const twins = parsed.nodes.filter((n) => n.type === "twinsystem");
-
-  setGoalPositions(goals, positions);
-  setTwinHierarchyPositions(twins, parsed.nodes, positions);
-
-  const nodes = parsed.nodes.map((node, index) => buildNode(node, index, positions)); 
-  const edges = parsed.edges.map(buildEdge);
+export function computeLayout(
+  parsed: DarTwinGraph,
+  preset: LayoutPreset = "layered"
+): LayoutResult {
+  const placements = LAYOUT_PRESETS[preset](parsed);
+  const nodes = parsed.nodes.map((node, index) => buildNode(node, index, placements));
+  const nodeTypes = new Map(parsed.nodes.map((node) => [node.id, node.type]));
+  const edges = parsed.edges.map((edge) => buildEdge(edge, nodeTypes, placements));
 
   return { nodes, edges };
 }
-
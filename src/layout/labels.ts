@@ -0,0 +1,35 @@
+import type { DarTwinNode } from "../types/reactflow";
+import type { GoalStatus } from "../evaluation/evaluateGoals";
+import { formatCriterion, formatLabel, formatPortLabel } from "../utils/format";
+
+/** Header prefix drawn in front of a container's name, e.g. `twin.system Strawberry`. */
+export const HEADER_PREFIXES = {
+  twinsystem: "twin.system",
+  dt: "digital twin",
+  at: "part",
+} as const;
+
+export const headerPrefix = (node: DarTwinNode): string | undefined =>
+  (HEADER_PREFIXES as Partial<Record<DarTwinNode["type"], string>>)[node.type];
+
+/** Text a node shows on the canvas; the layout measures the same strings. */
+export const displayLabel = (node: DarTwinNode) => {
+  switch (node.type) {
+    case "dt":
+      return formatLabel(node.label).replace(/Dt\b/i, "DT");
+    case "port":
+      return formatPortLabel(node.label);
+    default:
+      return formatLabel(node.label);
+  }
+};
+
+/** One line per criterion of a goal node. */
+export const criterionLines = (node: DarTwinNode) => (node.criteria ?? []).map(formatCriterion);
+
+/** Text of the badge an evaluated goal shows. */
+export const EVALUATION_LABELS: Record<GoalStatus, string> = {
+  pass: "pass",
+  fail: "fail",
+  unknown: "no data",
+};
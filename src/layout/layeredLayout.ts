@@ -0,0 +1,264 @@
+import type { DarTwinGraph, DarTwinNode } from "../types/reactflow";
+import { labelSize, type Size } from "./measure";
+import type { NodePlacements, Placement } from "./placement";
+
+interface Padding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** The top padding of a visible container leaves room for its header label. */
+const PADDING: Partial<Record<DarTwinNode["type"], Padding>> = {
+  dartwin: { top: 60, right: 120, bottom: 60, left: 120 },
+  twinsystem: { top: 72, right: 40, bottom: 40, left: 40 },
+  dt: { top: 64, right: 32, bottom: 24, left: 32 },
+  at: { top: 64, right: 32, bottom: 24, left: 32 },
+};
+
+const MIN_SIZES: Partial<Record<DarTwinNode["type"], Size>> = {
+  twinsystem: { width: 320, height: 180 },
+  dt: { width: 240, height: 120 },
+};
+
+/** Containers are never smaller than their header label or the default box for their type. */
+const minimumSize = (node: DarTwinNode): Size => {
+  const label = labelSize(node);
+  const preset = MIN_SIZES[node.type] ?? { width: 0, height: 0 };
+  return {
+    width: Math.max(label.width, preset.width),
+    height: Math.max(label.height, preset.height),
+  };
+};
+
+const NODE_GAP = 48;
+const LAYER_GAP = 80;
+const ORDERING_SWEEPS = 4;
+
+const NO_PADDING: Padding = { top: 0, right: 0, bottom: 0, left: 0 };
+
+type Link = [string, string];
+
+/**
+ * Assigns each item a layer so that links point downwards, using longest-path
+ * layering. Links that would close a cycle are ignored, which is what
+ * reversing them before layering amounts to.
+ */
+const assignLayers = (items: string[], links: Link[]): string[][] => {
+  const successors = new Map(items.map((item) => [item, [] as string[]]));
+  links.forEach(([from, to]) => successors.get(from)?.push(to));
+
+  const acyclic: Link[] = [];
+  const state = new Map<string, "active" | "done">();
+  const visit = (item: string) => {
+    state.set(item, "active");
+    successors.get(item)?.forEach((next) => {
+      if (state.get(next) === "active") {
+        return;
+      }
+      acyclic.push([item, next]);
+      if (!state.has(next)) {
+        visit(next);
+      }
+    });
+    state.set(item, "done");
+  };
+  items.forEach((item) => {
+    if (!state.has(item)) {
+      visit(item);
+    }
+  });
+
+  const predecessors = new Map(items.map((item) => [item, [] as string[]]));
+  acyclic.forEach(([from, to]) => predecessors.get(to)?.push(from));
+  const layerOf = new Map<string, number>();
+  const computeLayer = (item: string): number => {
+    const known = layerOf.get(item);
+    if (known !== undefined) {
+      return known;
+    }
+    const layer = Math.max(-1, ...(predecessors.get(item) ?? []).map(computeLayer)) + 1;
+    layerOf.set(item, layer);
+    return layer;
+  };
+
+  const layers: string[][] = [];
+  items.forEach((item) => {
+    const layer = computeLayer(item);
+    layers[layer] = [...(layers[layer] ?? []), item];
+  });
+  return layers.filter((layer) => layer !== undefined);
+};
+
+/**
+ * Reduces crossings with the barycenter heuristic: alternately sweeping down
+ * and up, each layer is sorted by the mean position of its neighbours in the
+ * layer before it. Items without neighbours there keep their place.
+ */
+const orderLayers = (layers: string[][], links: Link[]) => {
+  const neighbours = new Map<string, string[]>();
+  links.forEach(([from, to]) => {
+    neighbours.set(from, [...(neighbours.get(from) ?? []), to]);
+    neighbours.set(to, [...(neighbours.get(to) ?? []), from]);
+  });
+
+  const sortBy = (layer: string[], reference: string[]) => {
+    const positions = new Map(reference.map((item, index) => [item, index]));
+    const keyed = layer.map((item, index) => {
+      const adjacent = (neighbours.get(item) ?? [])
+        .map((neighbour) => positions.get(neighbour))
+        .filter((position): position is number => position !== undefined);
+      const barycenter =
+        adjacent.length > 0
+          ? adjacent.reduce((sum, position) => sum + position, 0) / adjacent.length
+          : index;
+      return { item, barycenter, index };
+    });
+    keyed.sort((a, b) => a.barycenter - b.barycenter || a.index - b.index);
+    return keyed.map(({ item }) => item);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep += 1) {
+    for (let index = 1; index < layers.length; index += 1) {
+      layers[index] = sortBy(layers[index]!, layers[index - 1]!);
+    }
+    for (let index = layers.length - 2; index >= 0; index -= 1) {
+      layers[index] = sortBy(layers[index]!, layers[index + 1]!);
+    }
+  }
+};
+
+/** Places layers as centred rows, top to bottom; returns the size of the content. */
+const placeLayers = (
+  layers: string[][],
+  sizes: Map<string, Size>,
+  padding: Padding,
+  minimum: Size,
+  place: (id: string, position: { x: number; y: number }) => void
+): Size => {
+  const rowWidth = (layer: string[]) =>
+    layer.reduce((sum, id) => sum + sizes.get(id)!.width, 0) + (layer.length - 1) * NODE_GAP;
+  const innerWidth = Math.max(
+    0,
+    ...layers.map(rowWidth),
+    minimum.width - padding.left - padding.right
+  );
+
+  let y = padding.top;
+  layers.forEach((layer) => {
+    const rowHeight = Math.max(...layer.map((id) => sizes.get(id)!.height));
+    let x = padding.left + (innerWidth - rowWidth(layer)) / 2;
+    layer.forEach((id) => {
+      const size = sizes.get(id)!;
+      place(id, { x, y: y + (rowHeight - size.height) / 2 });
+      x += size.width + NODE_GAP;
+    });
+    y += rowHeight + LAYER_GAP;
+  });
+  const contentBottom = layers.length > 0 ? y - LAYER_GAP : padding.top;
+
+  return {
+    width: innerWidth + padding.left + padding.right,
+    height: Math.max(contentBottom + padding.bottom, minimum.height),
+  };
+};
+
+/**
+ * Layered (Sugiyama-style) layout that respects containment. Every container
+ * is laid out bottom-up: its children are sized first, connections between
+ * their descendants are lifted to the children, and the children are then
+ * layered, ordered to reduce crossings and placed in non-overlapping rows.
+ * Allocation and refinement edges point up at goals, so goals end up above the
+ * systems and above the goals that refine them, and connections are layered in
+ * the direction their data flows.
+ */
+export function layeredLayout(graph: DarTwinGraph): NodePlacements {
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const children = new Map<string, DarTwinNode[]>();
+  graph.nodes.forEach((node) => {
+    if (node.parentId && byId.has(node.parentId)) {
+      children.set(node.parentId, [...(children.get(node.parentId) ?? []), node]);
+    }
+  });
+
+  /** The child of `containerId` that holds `id`, or `id` itself if it is one. */
+  const childWithin = (containerId: string, id: string) => {
+    let current = byId.get(id);
+    while (current && current.parentId !== containerId) {
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return current?.id;
+  };
+
+  const relative = new Map<string, { x: number; y: number }>();
+  const sizes = new Map<string, Size>();
+
+  const layoutContainer = (container: DarTwinNode): Size => {
+    const items = children.get(container.id) ?? [];
+    items.forEach((item) => {
+      sizes.set(
+        item.id,
+        children.has(item.id) || PADDING[item.type] ? layoutContainer(item) : labelSize(item)
+      );
+    });
+
+    const seen = new Set<string>();
+    const links: Link[] = [];
+    graph.edges.forEach((edge) => {
+      const source = childWithin(container.id, edge.source);
+      const target = childWithin(container.id, edge.target);
+      // Conflicting goals are alternatives, not one above the other.
+      if (!source || !target || source === target || edge.label === "conflicts") {
+        return;
+      }
+      const reversed = byId.get(edge.target)?.type === "goal" || edge.flow === "backward";
+      const link: Link = reversed ? [target, source] : [source, target];
+      if (!seen.has(link.join("->"))) {
+        seen.add(link.join("->"));
+        links.push(link);
+      }
+    });
+
+    const layers = assignLayers(
+      items.map((item) => item.id),
+      links
+    );
+    orderLayers(layers, links);
+    return placeLayers(
+      layers,
+      sizes,
+      PADDING[container.type] ?? NO_PADDING,
+      minimumSize(container),
+      (id, position) => relative.set(id, position)
+    );
+  };
+
+  const roots = graph.nodes.filter((node) => !node.parentId || !byId.has(node.parentId));
+  roots.forEach((root) => {
+    sizes.set(root.id, layoutContainer(root));
+    relative.set(root.id, { x: 0, y: 0 });
+  });
+
+  const placements: NodePlacements = {};
+  const absolute = (node: DarTwinNode): Placement => {
+    const existing = placements[node.id];
+    if (existing) {
+      return existing;
+    }
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    const origin = parent ? absolute(parent) : { x: 0, y: 0 };
+    const offset = relative.get(node.id) ?? { x: 0, y: 0 };
+    const placement = {
+      x: origin.x + offset.x,
+      y: origin.y + offset.y,
+      ...(sizes.get(node.id) ?? { width: 0, height: 0 }),
+    };
+    placements[node.id] = placement;
+    return placement;
+  };
+  graph.nodes.forEach(absolute);
+  // The DarTwin root only provides the margins; it is not drawn as a box.
+  roots.forEach((root) => delete placements[root.id]);
+  return placements;
+}
@@ -0,0 +1,127 @@
+import type { DarTwinNode } from "../types/reactflow";
+import { criterionLines, displayLabel, headerPrefix } from "./labels";
+
+export const FONT_FAMILY = '"Times New Roman", Times, serif';
+
+export interface FontSpec {
+  size: number;
+  weight?: "normal" | "bold";
+  style?: "normal" | "italic";
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/** Average Times New Roman glyph width per pixel of font size, used when no canvas exists. */
+const AVERAGE_GLYPH_WIDTH = 0.5;
+const BOLD_WIDTH_FACTOR = 1.08;
+
+let context: CanvasRenderingContext2D | null | undefined;
+
+const canvasContext = () => {
+  if (context === undefined) {
+    context =
+      typeof document === "undefined" ? null : document.createElement("canvas").getContext("2d");
+  }
+  return context;
+};
+
+/**
+ * Width of `text` in pixels. In the browser this asks a canvas, so it matches
+ * what the diagram renders; elsewhere (tests, exports in Node) it estimates.
+ */
+export const measureText = (
+  text: string,
+  { size, weight = "normal", style = "normal" }: FontSpec
+) => {
+  const canvas = canvasContext();
+  if (canvas) {
+    canvas.font = `${style} ${weight} ${size}px ${FONT_FAMILY}`;
+    return canvas.measureText(text).width;
+  }
+  return text.length * size * AVERAGE_GLYPH_WIDTH * (weight === "bold" ? BOLD_WIDTH_FACTOR : 1);
+};
+
+/** Greedy word wrap of `text` into lines no wider than `width`. */
+export const wrapText = (text: string, width: number, font: FontSpec) =>
+  text.split(/\s+/).reduce<string[]>((lines, word) => {
+    const current = lines[lines.length - 1];
+    if (current !== undefined && measureText(`${current} ${word}`, font) <= width) {
+      lines[lines.length - 1] = `${current} ${word}`;
+    } else {
+      lines.push(word);
+    }
+    return lines;
+  }, []);
+
+// Font and box metrics of the node components, see `styles/diagram.css`.
+export const HEADER_FONT: FontSpec = { size: 16, weight: "bold" };
+export const HEADER_LABEL_FONT: FontSpec = { size: 16, weight: "bold", style: "italic" };
+export const GOAL_TITLE_FONT: FontSpec = { size: 18, weight: "bold" };
+export const GOAL_DOC_FONT: FontSpec = { size: 12, style: "italic" };
+export const GOAL_CRITERION_FONT: FontSpec = { size: 12 };
+export const PORT_CAPTION_FONT: FontSpec = { size: 12 };
+
+const HEADER_GAP = 10;
+const HEADER_PADDING_X = 22;
+const HEADER_HEIGHT = 56;
+const GOAL_MIN = { width: 240, height: 120 };
+/** The goal trapezoid is 76% as wide at the top as its box; its text sits inside that. */
+const GOAL_TEXT_RATIO = 0.76;
+const GOAL_PADDING_X = 18;
+const GOAL_DOC_LINE_HEIGHT = 15;
+const GOAL_BADGE_HEIGHT = 20;
+const PORT_MIN = { width: 120, height: 56 };
+const PORT_CAPTION_PADDING = 8;
+
+/** Criteria are not wrapped, so the widest one may widen the goal like its title. */
+const goalSize = (node: DarTwinNode): Size => {
+  const criteria = criterionLines(node);
+  const textWidth = Math.max(
+    measureText(displayLabel(node), GOAL_TITLE_FONT),
+    ...criteria.map((line) => measureText(line, GOAL_CRITERION_FONT))
+  );
+  const width = Math.max(
+    GOAL_MIN.width,
+    Math.ceil((textWidth + 2 * GOAL_PADDING_X) / GOAL_TEXT_RATIO)
+  );
+  const docWidth = width * GOAL_TEXT_RATIO - 2 * GOAL_PADDING_X;
+  const docLines = node.doc ? wrapText(node.doc, docWidth, GOAL_DOC_FONT).length : 0;
+  // The default height fits two lines of doc or criteria; each further line adds to it.
+  const extraLines = Math.max(0, docLines + criteria.length - 2);
+  const badge = node.evaluation ? GOAL_BADGE_HEIGHT : 0;
+  return { width, height: GOAL_MIN.height + extraLines * GOAL_DOC_LINE_HEIGHT + badge };
+};
+
+/**
+ * The smallest box in which a node's own label fits: the header of a
+ * container, the title of a goal or the caption of a port. Containers may of
+ * course need more room for their children.
+ */
+export const labelSize = (node: DarTwinNode): Size => {
+  const prefix = headerPrefix(node);
+  if (prefix) {
+    const width =
+      measureText(prefix, HEADER_FONT) +
+      HEADER_GAP +
+      measureText(displayLabel(node), HEADER_LABEL_FONT) +
+      2 * HEADER_PADDING_X;
+    return { width: Math.ceil(width), height: HEADER_HEIGHT };
+  }
+  switch (node.type) {
+    case "goal":
+      return goalSize(node);
+    case "port":
+      return {
+        width: Math.max(
+          PORT_MIN.width,
+          Math.ceil(measureText(displayLabel(node), PORT_CAPTION_FONT) + PORT_CAPTION_PADDING)
+        ),
+        height: PORT_MIN.height,
+      };
+    default:
+      return { width: 0, height: 0 };
+  }
+};
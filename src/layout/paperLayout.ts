@@ -0,0 +1,605 @@
+import type { DarTwinGraph, DarTwinNode } from "../types/reactflow";
+import { labelSize, type Size } from "./measure";
+import type { NodePlacements, Placement } from "./placement";
+
+const CANVAS_MARGIN_X = 120;
+const GOAL_ROW_Y = 60;
+const GOAL_WIDTH = 240;
+const GOAL_HEIGHT = 120;
+const GOAL_HORIZONTAL_GAP = 80;
+const GOAL_LEVEL_GAP = 60;
+
+const TWIN_ROW_Y = 240;
+const TWIN_WIDTH = 520;
+const TWIN_HEIGHT = 340;
+const TWIN_HORIZONTAL_GAP = 160;
+
+const DT_WIDTH = 320;
+const DT_HEIGHT = 160;
+const DT_GAP = 60;
+
+const PORT_WIDTH = 120;
+const PORT_HEIGHT = 56;
+
+const SENSOR_GAP = 70;
+const SENSOR_CHAIN_GAP = 80;
+const SENSOR_STACK_GAP = 28;
+
+const ACTUATOR_VERTICAL_GAP = 70;
+const ACTUATOR_CHAIN_GAP = 90;
+const ACTUATOR_HORIZONTAL_GAP = 48;
+
+const SIDE_PORT_GAP = 100;
+const SIDE_PORT_STACK_GAP = 36;
+
+const TWIN_TOP_PADDING = 40;
+const TWIN_SIDE_GAP = 120;
+
+/** Parts are boxes with a header above one row of their ports. */
+const PART_PADDING = { top: 64, right: 24, bottom: 16, left: 24 };
+const PART_PORT_GAP = 24;
+const PART_GAP = 48;
+
+interface PositionMap {
+  [id: string]: { x: number; y: number };
+}
+
+/** Sizes of nodes whose box depends on their content, overriding `NODE_DIMENSIONS`. */
+interface SizeMap {
+  [id: string]: Size;
+}
+
+const groupByParent = (nodes: DarTwinNode[], parentId: string) =>
+  nodes.filter((node) => node.parentId === parentId);
+
+const byLabel = (a: DarTwinNode, b: DarTwinNode) => a.label.localeCompare(b.label);
+
+type PortRole = "sensor" | "actuator" | "other";
+
+/**
+ * Which side of its twin a port is drawn on: a declared direction decides,
+ * then the kind; only ports with neither are still guessed from their name.
+ */
+const portRole = (node: DarTwinNode): PortRole => {
+  if (node.direction === "in" || (!node.direction && node.portKind === "sensor")) {
+    return "sensor";
+  }
+  if (node.direction === "out" || (!node.direction && node.portKind === "actuator")) {
+    return "actuator";
+  }
+  if (node.direction || node.portKind) {
+    return "other";
+  }
+  if (/sensor|input/i.test(node.label)) {
+    return "sensor";
+  }
+  return /actuator|output/i.test(node.label) ? "actuator" : "other";
+};
+
+const isSensorPort = (node: DarTwinNode) => portRole(node) === "sensor";
+
+const isActuatorPort = (node: DarTwinNode) => portRole(node) === "actuator";
+
+const NODE_DIMENSIONS: Partial<Record<DarTwinNode["type"], { width: number; height: number }>> = {
+  goal: { width: GOAL_WIDTH, height: GOAL_HEIGHT },
+  twinsystem: { width: TWIN_WIDTH, height: TWIN_HEIGHT },
+  dt: { width: DT_WIDTH, height: DT_HEIGHT },
+  port: { width: PORT_WIDTH, height: PORT_HEIGHT },
+};
+
+/**
+ * Lays the goals out as refinement trees: goals that refine nothing share the
+ * top row, and every goal sits centred above the subgoals that refine it.
+ * Goals are as wide as their content, so the trees are spaced by their real
+ * widths here rather than spread apart afterwards, which would undo the
+ * centring. Returns the number of goal rows.
+ */
+const setGoalPositions = (goals: DarTwinNode[], graph: DarTwinGraph, positions: PositionMap) => {
+  const ids = new Set(goals.map((goal) => goal.id));
+  const parentOf = new Map(
+    graph.edges
+      .filter((edge) => edge.label === "refines" && ids.has(edge.source) && ids.has(edge.target))
+      .map((edge) => [edge.source, edge.target])
+  );
+  const sorted = goals.slice().sort(byLabel);
+  const widthOf = (goal: DarTwinNode) => Math.max(GOAL_WIDTH, labelSize(goal).width);
+
+  const placed: string[] = [];
+  let rows = 1;
+  /** Places `goal` and its subtree from `left` on; returns the width the subtree takes. */
+  const place = (goal: DarTwinNode, depth: number, left: number): number => {
+    const first = placed.length;
+    placed.push(goal.id);
+    rows = Math.max(rows, depth + 1);
+    const width = widthOf(goal);
+    let right = left;
+    sorted
+      .filter((child) => parentOf.get(child.id) === goal.id && !placed.includes(child.id))
+      .forEach((child, index) => {
+        const childLeft = right + (index > 0 ? GOAL_HORIZONTAL_GAP : 0);
+        right = childLeft + place(child, depth + 1, childLeft);
+      });
+    const childrenWidth = right - left;
+    // A goal wider than its subgoals moves them under its centre.
+    if (childrenWidth > 0 && childrenWidth < width) {
+      const shift = (width - childrenWidth) / 2;
+      placed.slice(first + 1).forEach((id) => (positions[id]!.x += shift));
+    }
+    const span = Math.max(width, childrenWidth);
+    positions[goal.id] = {
+      x: left + (span - width) / 2,
+      y: GOAL_ROW_Y + depth * (GOAL_HEIGHT + GOAL_LEVEL_GAP),
+    };
+    return span;
+  };
+  let nextX = CANVAS_MARGIN_X;
+  const placeTree = (goal: DarTwinNode) => {
+    nextX += place(goal, 0, nextX) + GOAL_HORIZONTAL_GAP;
+  };
+  sorted.filter((goal) => !parentOf.has(goal.id)).forEach(placeTree);
+  // Goals on a refinement cycle have no root; each cycle hangs from its first goal.
+  sorted.filter((goal) => !placed.includes(goal.id)).forEach(placeTree);
+  return rows;
+};
+
+interface DigitalTwinAnchors {
+  sensorBaseX: number;
+  sensorY: number;
+  actuatorStartX: number;
+  actuatorY: number;
+  actuatorCount: number;
+}
+
+const layoutDigitalTwin = (
+  twinPosition: { x: number; y: number },
+  dt: DarTwinNode,
+  dtIndex: number,
+  dtCount: number,
+  allPorts: DarTwinNode[],
+  positions: PositionMap
+): DigitalTwinAnchors => {
+  const dtSpanWidth = dtCount * DT_WIDTH + Math.max(0, dtCount - 1) * DT_GAP;
+  const dtStartX = twinPosition.x + (TWIN_WIDTH - dtSpanWidth) / 2;
+  const dtX = dtStartX + dtIndex * (DT_WIDTH + DT_GAP);
+  const dtY = twinPosition.y + (TWIN_HEIGHT - DT_HEIGHT) / 2;
+
+  positions[dt.id] = { x: dtX, y: dtY };
+
+  const dtPorts = groupByParent(allPorts, dt.id).sort(byLabel);
+  const sensorPorts = dtPorts.filter(isSensorPort);
+  const actuatorPorts = dtPorts.filter(isActuatorPort);
+  const remainingPorts = dtPorts.filter(
+    (port) => !sensorPorts.includes(port) && !actuatorPorts.includes(port)
+  );
+
+  const sensorBaseX = dtX + DT_WIDTH + SENSOR_GAP;
+  const sensorY = dtY + DT_HEIGHT / 2 - PORT_HEIGHT / 2;
+  sensorPorts.forEach((port, index) => {
+    positions[port.id] = {
+      x: sensorBaseX + index * (PORT_WIDTH + SENSOR_STACK_GAP),
+      y: sensorY,
+    };
+  });
+
+  const actuatorRowWidth =
+    actuatorPorts.length * PORT_WIDTH +
+    Math.max(0, actuatorPorts.length - 1) * ACTUATOR_HORIZONTAL_GAP;
+  const actuatorStartX =
+    actuatorPorts.length > 0
+      ? dtX + (DT_WIDTH - actuatorRowWidth) / 2
+      : dtX + (DT_WIDTH - PORT_WIDTH) / 2;
+  const actuatorY = dtY + DT_HEIGHT + ACTUATOR_VERTICAL_GAP;
+  actuatorPorts.forEach((port, index) => {
+    positions[port.id] = {
+      x: actuatorStartX + index * (PORT_WIDTH + ACTUATOR_HORIZONTAL_GAP),
+      y: actuatorY,
+    };
+  });
+
+  if (remainingPorts.length > 0) {
+    const totalHeight =
+      remainingPorts.length * PORT_HEIGHT +
+      Math.max(0, remainingPorts.length - 1) * SIDE_PORT_STACK_GAP;
+    const startY = dtY + (DT_HEIGHT - totalHeight) / 2;
+    const leftX = dtX - SIDE_PORT_GAP - PORT_WIDTH;
+    remainingPorts.forEach((port, index) => {
+      positions[port.id] = {
+        x: leftX,
+        y: startY + index * (PORT_HEIGHT + SIDE_PORT_STACK_GAP),
+      };
+    });
+  }
+
+  return {
+    sensorBaseX,
+    sensorY,
+    actuatorStartX,
+    actuatorY,
+    actuatorCount: actuatorPorts.length,
+  };
+};
+
+const layoutTwinPorts = (
+  twin: DarTwinNode,
+  allPorts: DarTwinNode[],
+  anchors: DigitalTwinAnchors | undefined,
+  positions: PositionMap,
+  portParentIds: string[]
+) => {
+  const twinPorts = portParentIds
+    .flatMap((parentId) => groupByParent(allPorts, parentId))
+    .sort(byLabel);
+  const sensorPorts = twinPorts.filter(isSensorPort);
+  const actuatorPorts = twinPorts.filter(isActuatorPort);
+  const remainingPorts = twinPorts.filter(
+    (port) => !sensorPorts.includes(port) && !actuatorPorts.includes(port)
+  );
+
+  const twinPosition = positions[twin.id] ?? { x: CANVAS_MARGIN_X, y: TWIN_ROW_Y };
+  const baseSensorX = anchors
+    ? anchors.sensorBaseX + PORT_WIDTH + SENSOR_CHAIN_GAP
+    : twinDefaultSensorX(twinPosition);
+  const baseSensorY = anchors
+    ? anchors.sensorY
+    : twinPosition.y + TWIN_HEIGHT / 2 - PORT_HEIGHT / 2;
+  sensorPorts.forEach((port, index) => {
+    positions[port.id] = {
+      x: baseSensorX + index * (PORT_WIDTH + SENSOR_STACK_GAP),
+      y: baseSensorY,
+    };
+  });
+
+  const twinActuatorRowWidth =
+    actuatorPorts.length * PORT_WIDTH +
+    Math.max(0, actuatorPorts.length - 1) * ACTUATOR_HORIZONTAL_GAP;
+  const fallbackActuatorStartX =
+    actuatorPorts.length > 0
+      ? twinPosition.x + (TWIN_WIDTH - twinActuatorRowWidth) / 2
+      : twinPosition.x + (TWIN_WIDTH - PORT_WIDTH) / 2;
+  const baseActuatorStartX =
+    anchors && actuatorPorts.length === anchors.actuatorCount
+      ? anchors.actuatorStartX
+      : fallbackActuatorStartX;
+  const actuatorY =
+    (anchors?.actuatorY ?? twinPosition.y + TWIN_HEIGHT / 2) + PORT_HEIGHT + ACTUATOR_CHAIN_GAP;
+  actuatorPorts.forEach((port, index) => {
+    positions[port.id] = {
+      x: baseActuatorStartX + index * (PORT_WIDTH + ACTUATOR_HORIZONTAL_GAP),
+      y: actuatorY,
+    };
+  });
+
+  if (remainingPorts.length > 0) {
+    const baseX = twinPosition.x - TWIN_SIDE_GAP - PORT_WIDTH;
+    remainingPorts.forEach((port, index) => {
+      positions[port.id] = {
+        x: baseX,
+        y: twinPosition.y + TWIN_TOP_PADDING + index * (PORT_HEIGHT + SIDE_PORT_STACK_GAP),
+      };
+    });
+  }
+};
+
+const twinDefaultSensorX = (twinPosition: { x: number; y: number }) =>
+  twinPosition.x + TWIN_WIDTH + SENSOR_GAP;
+
+/** Mean x of the already placed ports that `port` is connected to. */
+const partnerX = (port: DarTwinNode, graph: DarTwinGraph, positions: PositionMap) => {
+  const partners = graph.edges
+    .flatMap((edge) =>
+      edge.source === port.id ? [edge.target] : edge.target === port.id ? [edge.source] : []
+    )
+    .map((id) => positions[id]?.x)
+    .filter((x): x is number => x !== undefined);
+  return partners.length > 0
+    ? partners.reduce((sum, x) => sum + x, 0) / partners.length
+    : undefined;
+};
+
+interface PartBox {
+  part: DarTwinNode;
+  ports: DarTwinNode[];
+  parts: PartBox[];
+  /** Leftmost x of the ports its ports are connected to, for ordering siblings. */
+  order: number;
+  size: Size;
+}
+
+const rowWidth = (boxes: PartBox[]) =>
+  boxes.reduce((sum, box) => sum + box.size.width, 0) + Math.max(0, boxes.length - 1) * PART_GAP;
+
+/**
+ * Sizes a part from the inside out: one row of its ports, ordered like the
+ * ports they are connected to so that the connections run side by side, and
+ * below them a row of its nested parts.
+ */
+const measurePart = (part: DarTwinNode, graph: DarTwinGraph, positions: PositionMap): PartBox => {
+  const children = groupByParent(graph.nodes, part.id);
+  const ports = children
+    .filter((node) => node.type === "port")
+    .map((port) => ({ port, x: partnerX(port, graph, positions) }))
+    .sort(
+      (a, b) => (a.x ?? Infinity) - (b.x ?? Infinity) || a.port.label.localeCompare(b.port.label)
+    );
+  const parts = children
+    .filter((node) => node.type === "at")
+    .map((nested) => measurePart(nested, graph, positions))
+    .sort((a, b) => a.order - b.order || a.part.label.localeCompare(b.part.label));
+
+  const portsWidth = ports.length * PORT_WIDTH + Math.max(0, ports.length - 1) * PART_PORT_GAP;
+  // A part without nested parts keeps its row of ports even when it is empty.
+  const portsHeight = ports.length > 0 || parts.length === 0 ? PORT_HEIGHT : 0;
+  const partsHeight = Math.max(0, ...parts.map((box) => box.size.height));
+  const between = ports.length > 0 && parts.length > 0 ? PART_GAP : 0;
+  const known = ports.map(({ x }) => x).filter((x): x is number => x !== undefined);
+  return {
+    part,
+    ports: ports.map(({ port }) => port),
+    parts,
+    order: Math.min(Infinity, ...known, ...parts.map((box) => box.order)),
+    size: {
+      width: Math.max(
+        labelSize(part).width,
+        Math.max(portsWidth, rowWidth(parts)) + PART_PADDING.left + PART_PADDING.right
+      ),
+      height: PART_PADDING.top + portsHeight + between + partsHeight + PART_PADDING.bottom,
+    },
+  };
+};
+
+const placePart = (
+  box: PartBox,
+  position: { x: number; y: number },
+  positions: PositionMap,
+  sizes: SizeMap
+) => {
+  positions[box.part.id] = position;
+  sizes[box.part.id] = box.size;
+  const portsY = position.y + PART_PADDING.top;
+  box.ports.forEach((port, index) => {
+    positions[port.id] = {
+      x: position.x + PART_PADDING.left + index * (PORT_WIDTH + PART_PORT_GAP),
+      y: portsY,
+    };
+  });
+  let x = position.x + PART_PADDING.left;
+  const partsY = portsY + (box.ports.length > 0 ? PORT_HEIGHT + PART_GAP : 0);
+  box.parts.forEach((nested) => {
+    placePart(nested, { x, y: partsY }, positions, sizes);
+    x += nested.size.width + PART_GAP;
+  });
+};
+
+/**
+ * Places the parts of a twin system in a row below its digital twins and their
+ * actuator ports, centred under the twin; nested parts sit inside their parent.
+ */
+const layoutParts = (
+  twinPosition: { x: number; y: number },
+  parts: DarTwinNode[],
+  partsY: number,
+  graph: DarTwinGraph,
+  positions: PositionMap,
+  sizes: SizeMap
+) => {
+  const boxes = parts
+    .map((part) => measurePart(part, graph, positions))
+    .sort((a, b) => a.order - b.order || a.part.label.localeCompare(b.part.label));
+
+  let x = twinPosition.x + (TWIN_WIDTH - rowWidth(boxes)) / 2;
+  boxes.forEach((box) => {
+    placePart(box, { x, y: partsY }, positions, sizes);
+    x += box.size.width + PART_GAP;
+  });
+};
+
+/**
+ * Orders twin systems left to right so that connections between systems run
+ * from left to right where they can; otherwise systems keep label order.
+ */
+const orderTwins = (twins: DarTwinNode[], graph: DarTwinGraph) => {
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const systemOf = (id: string) => {
+    let node = byId.get(id);
+    while (node && node.type !== "twinsystem") {
+      node = node.parentId ? byId.get(node.parentId) : undefined;
+    }
+    return node?.id;
+  };
+  const upstream = new Map(twins.map((twin) => [twin.id, new Set<string>()]));
+  graph.edges.forEach((edge) => {
+    const source = systemOf(edge.source);
+    const target = systemOf(edge.target);
+    if (source && target && source !== target) {
+      const [from, to] = edge.flow === "backward" ? [target, source] : [source, target];
+      upstream.get(to)?.add(from);
+    }
+  });
+
+  const remaining = twins.slice().sort(byLabel);
+  const ordered: DarTwinNode[] = [];
+  while (remaining.length > 0) {
+    const placed = new Set(ordered.map((twin) => twin.id));
+    // A cycle leaves no system ready; the first remaining one then breaks it.
+    const next =
+      remaining.find((twin) => [...upstream.get(twin.id)!].every((id) => placed.has(id))) ??
+      remaining[0]!;
+    ordered.push(next);
+    remaining.splice(remaining.indexOf(next), 1);
+  }
+  return ordered;
+};
+
+const setTwinHierarchyPositions = (
+  twins: DarTwinNode[],
+  graph: DarTwinGraph,
+  twinY: number,
+  positions: PositionMap,
+  sizes: SizeMap
+) => {
+  const allNodes = graph.nodes;
+  const dts = allNodes.filter((node) => node.type === "dt");
+  const ports = allNodes.filter((node) => node.type === "port");
+  const ats = allNodes.filter((node) => node.type === "at");
+
+  orderTwins(twins, graph).forEach((twin, twinIndex) => {
+    const twinX = CANVAS_MARGIN_X + twinIndex * (TWIN_WIDTH + TWIN_HORIZONTAL_GAP);
+    positions[twin.id] = { x: twinX, y: twinY };
+
+    const twinDigitalTwins = groupByParent(dts, twin.id).sort(byLabel);
+    const anchors = twinDigitalTwins.map((dt, index) =>
+      layoutDigitalTwin(
+        { x: twinX, y: twinY },
+        dt,
+        index,
+        twinDigitalTwins.length,
+        ports,
+        positions
+      )
+    );
+
+    const primaryAnchor = anchors[0];
+    if (groupByParent(ports, twin.id).length > 0) {
+      layoutTwinPorts(twin, ports, primaryAnchor, positions, [twin.id]);
+    }
+
+    const partsY =
+      (primaryAnchor?.actuatorY ?? twinY + TWIN_HEIGHT / 2) + PORT_HEIGHT + ACTUATOR_CHAIN_GAP;
+    layoutParts(
+      { x: twinX, y: twinY },
+      groupByParent(ats, twin.id),
+      partsY,
+      graph,
+      positions,
+      sizes
+    );
+  });
+};
+
+/** Room a twin system keeps around its contents; the top holds its header. */
+const FIT_PADDING = { top: 56, right: 24, bottom: 24, left: 24 };
+
+const isVisible = (placement: Placement | undefined): placement is Placement =>
+  placement !== undefined && placement.width > 0 && placement.height > 0;
+
+/** Grows `placement` so that it encloses `contents` plus padding; it never shrinks. */
+const growToEnclose = (placement: Placement, contents: Placement[], padding = FIT_PADDING) => {
+  if (contents.length === 0) {
+    return;
+  }
+  const left = Math.min(placement.x, ...contents.map((box) => box.x - padding.left));
+  const top = Math.min(placement.y, ...contents.map((box) => box.y - padding.top));
+  const right = Math.max(
+    placement.x + placement.width,
+    ...contents.map((box) => box.x + box.width + padding.right)
+  );
+  const bottom = Math.max(
+    placement.y + placement.height,
+    ...contents.map((box) => box.y + box.height + padding.bottom)
+  );
+  Object.assign(placement, { x: left, y: top, width: right - left, height: bottom - top });
+};
+
+/**
+ * Pushes the nodes of a row apart, left to right, until neighbours are at
+ * least `gap` apart; each node moves together with its descendants.
+ */
+const spreadRow = (
+  row: DarTwinNode[],
+  gap: number,
+  placements: NodePlacements,
+  subtreeOf: (node: DarTwinNode) => DarTwinNode[]
+) => {
+  let right = -Infinity;
+  row
+    .filter((node) => placements[node.id])
+    .sort((a, b) => placements[a.id]!.x - placements[b.id]!.x)
+    .forEach((node) => {
+      const shift = Math.max(0, right + gap - placements[node.id]!.x);
+      subtreeOf(node).forEach((member) => {
+        const placement = placements[member.id];
+        if (placement) {
+          placement.x += shift;
+        }
+      });
+      right = placements[node.id]!.x + placements[node.id]!.width;
+    });
+};
+
+/**
+ * Sizes nodes from their content: labels get the room they need, twin
+ * systems grow around their digital twins, parts and ports, and rows of
+ * systems, digital twins and parts are spread out again so that nothing
+ * overlaps. Goals were already placed at their content width.
+ */
+const fitToContent = (graph: DarTwinGraph, placements: NodePlacements) => {
+  const childrenOf = (node: DarTwinNode) =>
+    graph.nodes.filter((child) => child.parentId === node.id);
+  const subtreeOf = (node: DarTwinNode): DarTwinNode[] => [
+    node,
+    ...childrenOf(node).flatMap(subtreeOf),
+  ];
+
+  graph.nodes.forEach((node) => {
+    const placement = placements[node.id];
+    if (isVisible(placement)) {
+      const minimum = labelSize(node);
+      placement.width = Math.max(placement.width, minimum.width);
+      placement.height = Math.max(placement.height, minimum.height);
+    }
+  });
+
+  const partsOf = (node: DarTwinNode) => childrenOf(node).filter((child) => child.type === "at");
+  const fitPart = (part: DarTwinNode) => {
+    partsOf(part).forEach(fitPart);
+    spreadRow(partsOf(part), PART_GAP, placements, subtreeOf);
+    const contents = childrenOf(part)
+      .map((child) => placements[child.id])
+      .filter(isVisible);
+    growToEnclose(placements[part.id]!, contents, PART_PADDING);
+  };
+
+  const twins = graph.nodes.filter((node) => node.type === "twinsystem");
+  twins.forEach((twin) => {
+    const dts = childrenOf(twin).filter((child) => child.type === "dt");
+    spreadRow(dts, DT_GAP, placements, subtreeOf);
+    partsOf(twin).forEach(fitPart);
+    spreadRow(partsOf(twin), PART_GAP, placements, subtreeOf);
+    const contents = subtreeOf(twin)
+      .slice(1)
+      .map((node) => placements[node.id])
+      .filter(isVisible);
+    growToEnclose(placements[twin.id]!, contents);
+  });
+
+  spreadRow(twins, TWIN_HORIZONTAL_GAP, placements, subtreeOf);
+};
+
+/**
+ * The original paper-figure layout: goals as refinement trees above the twin
+ * systems, with ports placed around their digital twin by direction (sensors
+ * and inputs to the right, actuators and outputs below) and the parts in a row
+ * beneath.
+ * Positions follow the paper figure; sizes are then fitted to the content.
+ */
+export function paperLayout(graph: DarTwinGraph): NodePlacements {
+  const positions: PositionMap = {};
+  const goals = graph.nodes.filter((n) => n.type === "goal");
+  const twins = graph.nodes.filter((n) => n.type === "twinsystem");
+
+  const goalRows = setGoalPositions(goals, graph, positions);
+  const twinY = TWIN_ROW_Y + (goalRows - 1) * (GOAL_HEIGHT + GOAL_LEVEL_GAP);
+  const sizes: SizeMap = {};
+  setTwinHierarchyPositions(twins, graph, twinY, positions, sizes);
+
+  const placements: NodePlacements = {};
+  graph.nodes.forEach((node) => {
+    const position = positions[node.id];
+    const dims = sizes[node.id] ?? NODE_DIMENSIONS[node.type];
+    if (position && dims) {
+      placements[node.id] = { ...position, ...dims };
+    }
+  });
+  fitToContent(graph, placements);
+  return placements;
+}
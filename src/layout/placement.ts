@@ -0,0 +1,14 @@
+export interface Placement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Absolute placement of each laid-out node, keyed by node id. */
+export type NodePlacements = Record<string, Placement>;
+
+/** Ids of the handles on either side of a port's square, and above and below a goal. */
+export const PORT_HANDLES = { top: "top", bottom: "bottom" } as const;
+
+export type PortHandle = keyof typeof PORT_HANDLES;
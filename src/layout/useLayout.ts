@@ -0,0 +1,46 @@
+import { useEffect, useMemo } from "react";
+import { useEdgesState, useNodesState, type Edge, type Node } from "reactflow";
+
+/**
+ * Updates the nodes on the canvas from a fresh layout of the same nodes: the
+ * user's dragged positions stay, everything else (data such as an evaluation
+ * badge, and the size) comes from `fresh`.
+ */
+export const mergeLayoutNodes = (kept: Node[], fresh: Node[]): Node[] => {
+  if (kept.length === 0) {
+    return fresh;
+  }
+  const keptById = new Map(kept.map((node) => [node.id, node]));
+  return fresh.map((node) => {
+    const previous = keptById.get(node.id);
+    return previous ? { ...previous, ...node, position: previous.position } : node;
+  });
+};
+
+/**
+ * Keeps user-dragged positions across re-layouts until the set of nodes or
+ * `resetKey` (e.g. the layout preset) changes.
+ */
+export function useLayout(initialNodes: Node[], initialEdges: Edge[], resetKey = "") {
+  const [stateNodes, setNodes, onNodesChange] = useNodesState(initialNodes);
+  const [stateEdges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+
+  const layoutSignature = useMemo(
+    () => [resetKey, ...initialNodes.map((node) => node.id)].join("|"),
+    [initialNodes, resetKey]
+  );
+
+  useEffect(() => {
+    setNodes([]);
+  }, [layoutSignature, setNodes]);
+
+  useEffect(() => {
+    setNodes((prev) => mergeLayoutNodes(prev, initialNodes));
+  }, [initialNodes, setNodes]);
+
+  useEffect(() => {
+    setEdges(initialEdges);
+  }, [initialEdges, setEdges]);
+
+  return { nodes: stateNodes, edges: stateEdges, onNodesChange, onEdgesChange };
+}
@@ -0,0 +1,137 @@
+import type {
+  DarTwinModel,
+  OriginalTwin,
+  Port,
+  PortDirection,
+  PortKind,
+} from "../types/dartwin";
+
+export interface PortReference {
+  system: string;
+  /** The digital twin, or the dotted path of a part within the system, e.g. `Greenhouse.Bed`. */
+  owner: string;
+  ownerKind: "dt" | "part";
+  port: string;
+  /** Fully qualified `System.Owner.port` path. */
+  path: string;
+  direction?: PortDirection;
+  kind?: PortKind;
+}
+
+export type ElementKind = "system" | "dt" | "part" | "port";
+
+/** A named element of the model that a goal can be allocated to. */
+export interface ElementReference {
+  kind: ElementKind;
+  system: string;
+  /** Fully qualified path such as `Greenhouse.Bed.moisture`; a twin system's path is its name. */
+  path: string;
+}
+
+export interface ReferenceIndex {
+  ports: PortReference[];
+  elements: ElementReference[];
+  /** Resolves a `connect` endpoint such as `Owner.port` or `System.Owner.port` in `system`. */
+  resolvePort: (system: string, reference: string) => PortReference | undefined;
+  /** Resolves a `System.Owner.port` path in any system, as `#dartwin`-level connections use. */
+  resolveQualifiedPort: (reference: string) => PortReference | undefined;
+  /**
+   * Resolves an allocation target: a twin system, a digital twin as `DT` or
+   * `System.DT`, a part as `System.Part` or a port as `System.Owner.port`.
+   */
+  resolveElement: (reference: string) => ElementReference | undefined;
+}
+
+export interface NestedPart {
+  part: OriginalTwin;
+  /** Dotted path of the part within its twin system. */
+  path: string;
+}
+
+/** Every part in `parts` and, recursively, in their nested parts; parents come first. */
+export const flattenParts = (parts: OriginalTwin[], prefix?: string): NestedPart[] =>
+  parts.flatMap((part) => {
+    const path = prefix ? `${prefix}.${part.name}` : part.name;
+    return [{ part, path }, ...flattenParts(part.parts ?? [], path)];
+  });
+
+export const createReferenceIndex = (model: DarTwinModel): ReferenceIndex => {
+  const ports: PortReference[] = [];
+  const elements: ElementReference[] = [];
+  const portAliases = new Map<string, Map<string, PortReference>>();
+  const elementAliases = new Map<string, ElementReference>();
+
+  const addElement = (kind: ElementKind, system: string, path: string, alias?: string) => {
+    if (elementAliases.get(path)?.system === system) {
+      return;
+    }
+    const reference = { kind, system, path };
+    elements.push(reference);
+    elementAliases.set(path, reference);
+    if (alias && !elementAliases.has(alias)) {
+      elementAliases.set(alias, reference);
+    }
+  };
+
+  model.systems.forEach((system) => {
+    const aliases = portAliases.get(system.name) ?? new Map<string, PortReference>();
+    portAliases.set(system.name, aliases);
+    addElement("system", system.name, system.name);
+
+    const addPorts = (owner: string, ownerKind: PortReference["ownerKind"], owned: Port[]) => {
+      owned.forEach(({ name: port, direction, kind }) => {
+        if (aliases.has(`${system.name}.${owner}.${port}`)) {
+          return;
+        }
+        const reference: PortReference = {
+          system: system.name,
+          owner,
+          ownerKind,
+          port,
+          path: `${system.name}.${owner}.${port}`,
+          ...(direction ? { direction } : {}),
+          ...(kind ? { kind } : {}),
+        };
+        ports.push(reference);
+        addElement("port", system.name, reference.path);
+        aliases.set(`${owner}.${port}`, reference);
+        aliases.set(reference.path, reference);
+      });
+    };
+
+    system.digital_twins.forEach((dt) => {
+      addElement("dt", system.name, `${system.name}.${dt.name}`, dt.name);
+      addPorts(dt.name, "dt", dt.ports);
+    });
+    flattenParts(system.original_twins).forEach(({ part, path }) => {
+      addElement("part", system.name, `${system.name}.${path}`);
+      addPorts(path, "part", part.ports);
+    });
+  });
+
+  const resolvePort = (system: string, reference: string) => {
+    const aliases = portAliases.get(system);
+    if (!aliases) {
+      return undefined;
+    }
+    const trimmed = reference.trim();
+    const systemPrefix = `${system}.`;
+    const candidates = [
+      trimmed,
+      `${systemPrefix}${trimmed}`,
+      ...(trimmed.startsWith(systemPrefix) ? [trimmed.slice(systemPrefix.length)] : []),
+    ];
+    const match = candidates.find((candidate) => aliases.has(candidate));
+    return match ? aliases.get(match) : undefined;
+  };
+
+  const resolveQualifiedPort = (reference: string) => {
+    const trimmed = reference.trim();
+    const port = resolvePort(trimmed.split(".")[0] ?? "", trimmed);
+    return port?.path === trimmed ? port : undefined;
+  };
+
+  const resolveElement = (reference: string) => elementAliases.get(reference.trim());
+
+  return { ports, elements, resolvePort, resolveQualifiedPort, resolveElement };
+};
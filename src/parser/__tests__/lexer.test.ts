@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { tokenize } from "../lexer";
+
+describe("tokenize", () => {
+  it("splits keywords, names, dotted references, comments and braces", () => {
+    const { tokens, errors } = tokenize(
+      "#TwinSystem A { connect A.DT.p to q; // name: x\n doc /* { */ }"
+    );
+    expect(errors).toEqual([]);
+    expect(tokens.map((token) => [token.kind, token.value])).toEqual([
+      ["keyword", "#twinsystem"],
+      ["identifier", "A"],
+      ["lbrace", "{"],
+      ["keyword", "connect"],
+      ["reference", "A.DT.p"],
+      ["keyword", "to"],
+      ["identifier", "q"],
+      ["semicolon", ";"],
+      ["lineComment", "// name: x"],
+      ["keyword", "doc"],
+      ["blockComment", "/* { */"],
+      ["rbrace", "}"],
+      ["eof", ""],
+    ]);
+  });
+
+  it("reads comparators, taking = after < or > as part of them", () => {
+    expect(tokenize("a <= 1 >2 = <").tokens.map((token) => [token.kind, token.text])).toEqual([
+      ["identifier", "a"],
+      ["comparator", "<="],
+      ["identifier", "1"],
+      ["comparator", ">"],
+      ["identifier", "2"],
+      ["comparator", "="],
+      ["comparator", "<"],
+      ["eof", ""],
+    ]);
+  });
+
+  it("reports unterminated block comments", () => {
+    const { errors } = tokenize("part P { /* open");
+    expect(errors).toEqual([{ message: "Unterminated block comment.", start: 9, end: 16 }]);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { parseDarTwin } from "../parseDarTwin";
+import { parseDarTwin, parseDarTwinDocument } from "../parseDarTwin";
 
 const sample = `#dartwin StrawberryCultivationTrans {
   #twinsystem Strawberry {
@@ -81,10 +81,18 @@ describe("parseDarTwin", () => {
               {
                 "name": "StrawberryDT",
                 "ports": [
-                  "multisensor_input",
-                  "actuator_output_irrigation",
-                  "actuator_output_human",
-                  "actuator_output_ventilation",
+                  {
+                    "name": "multisensor_input",
+                  },
+                  {
+                    "name": "actuator_output_irrigation",
+                  },
+                  {
+                    "name": "actuator_output_human",
+                  },
+                  {
+                    "name": "actuator_output_ventilation",
+                  },
                 ],
               },
             ],
@@ -93,10 +101,18 @@ describe("parseDarTwin", () => {
               {
                 "name": "Cultivation",
                 "ports": [
-                  "MultiSensor",
-                  "IrrigationActuator",
-                  "HumanActuator",
-                  "VentilationActuator",
+                  {
+                    "name": "MultiSensor",
+                  },
+                  {
+                    "name": "IrrigationActuator",
+                  },
+                  {
+                    "name": "HumanActuator",
+                  },
+                  {
+                    "name": "VentilationActuator",
+                  },
                 ],
               },
             ],
@@ -130,3 +146,303 @@ describe("parseDarTwin", () => {
     ]);
   });
 });
+
+describe("parseDarTwinDocument", () => {
+  it("reports no diagnostics for the sample DSL", () => {
+    const { model, diagnostics } = parseDarTwinDocument(sample);
+    expect(diagnostics).toEqual([]);
+    expect(model).toEqual(parseDarTwin(sample));
+  });
+
+  it("reports a missing #dartwin header", () => {
+    const { model, diagnostics } = parseDarTwinDocument("");
+    expect(model.systems).toEqual([]);
+    expect(diagnostics).toEqual([
+      {
+        severity: "error",
+        message: 'Missing "#dartwin <name> {" header.',
+        range: { start: { line: 1, column: 1 }, end: { line: 1, column: 1 } },
+      },
+    ]);
+  });
+
+  it("locates unbalanced braces", () => {
+    const unclosed = `#dartwin Test {
+  #twinsystem Alpha {
+    part Machine {
+      port input;
+  }
+}`;
+    expect(parseDarTwinDocument(unclosed).diagnostics).toEqual([
+      {
+        severity: "error",
+        message: "Missing closing brace '}' for this block.",
+        range: { start: { line: 1, column: 15 }, end: { line: 1, column: 16 } },
+      },
+    ]);
+
+    const extra = `#dartwin Test {
+  #twinsystem Alpha { }
+  }
+}`;
+    const [diagnostic] = parseDarTwinDocument(extra).diagnostics;
+    expect(diagnostic.message).toBe("Unexpected content after the end of the #dartwin block.");
+    expect(diagnostic.range.start).toEqual({ line: 4, column: 1 });
+  });
+
+  it("reports unknown keywords and missing semicolons", () => {
+    const text = `#dartwin Test {
+  #twinsystem Alpha {
+    #digitaltwin DT {
+      prot out;
+      port in
+    }
+  }
+}`;
+    const messages = parseDarTwinDocument(text).diagnostics.map((d) => [
+      d.message,
+      d.range.start.line,
+    ]);
+    expect(messages).toEqual([
+      ['Unknown keyword "prot".', 4],
+      ["Missing ';' after port statement.", 5],
+    ]);
+  });
+
+  it("reads port directions and kinds", () => {
+    const text = `#dartwin Test {
+  #twinsystem Alpha {
+    #digitaltwin DT {
+      in port moisture_feed : sensor;
+      out port valve : Actuator;
+      inout port console;
+      port spare : gizmo;
+    }
+  }
+}`;
+    const { model, diagnostics } = parseDarTwinDocument(text);
+    expect(model.systems[0].digital_twins[0].ports).toEqual([
+      { name: "moisture_feed", direction: "in", kind: "sensor" },
+      { name: "valve", direction: "out", kind: "actuator" },
+      { name: "console", direction: "inout" },
+      { name: "spare" },
+    ]);
+    expect(diagnostics.map((d) => [d.message, d.range.start.line])).toEqual([
+      ['Unknown port kind "gizmo". Expected one of sensor, actuator, data, human.', 7],
+    ]);
+  });
+
+  it("reports malformed connect and allocate statements", () => {
+    const text = `#dartwin Test {
+  #twinsystem Alpha {
+    connect DT.out Machine.input;
+  }
+  #goal g;
+  allocate g Alpha.DT;
+}`;
+    const diagnostics = parseDarTwinDocument(text).diagnostics;
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'Malformed connect statement. Expected "connect <port> to <port> [name <name>];".',
+      'Malformed allocate statement. Expected "allocate <goal> to <target>;".',
+    ]);
+    expect(diagnostics[0].range).toEqual({
+      start: { line: 3, column: 5 },
+      end: { line: 3, column: 33 },
+    });
+  });
+
+  it("ignores braces and keywords inside comments", () => {
+    const text = `#dartwin Test {
+  // stray } brace
+  /* foo { bar */
+  #goal g { doc /* not a { block */ }
+}`;
+    expect(parseDarTwinDocument(text).diagnostics).toEqual([]);
+  });
+});
+
+describe("parseDarTwin scoping", () => {
+  it("assigns elements only to the block that declares them", () => {
+    const text = `#dartwin Test {
+  #twinsystem Alpha {
+    #digitaltwin DT {
+      port out;
+      part Sneaky { port hidden; }
+    }
+    part Machine { port input; }
+    /* connect DT.out to Machine.input; */
+    // connect DT.out to Machine.input;
+  }
+}`;
+    const { model, diagnostics } = parseDarTwinDocument(text);
+    expect(model.systems[0]).toEqual({
+      name: "Alpha",
+      digital_twins: [{ name: "DT", ports: [{ name: "out" }] }],
+      original_twins: [{ name: "Machine", ports: [{ name: "input" }] }],
+      connections: [],
+    });
+    expect(diagnostics.map((d) => [d.message, d.range.start.line])).toEqual([
+      ['"part" is not allowed here.', 5],
+    ]);
+  });
+
+  it("nests parts inside parts and records them by path", () => {
+    const text = `#dartwin Test {
+  #twinsystem Farm {
+    part Greenhouse {
+      port door;
+      part Bed {
+        part SoilProbe { out port moisture : sensor; }
+      }
+    }
+  }
+}`;
+    const { model, diagnostics, sourceMap } = parseDarTwinDocument(text);
+    expect(diagnostics).toEqual([]);
+    expect(model.systems[0].original_twins).toEqual([
+      {
+        name: "Greenhouse",
+        ports: [{ name: "door" }],
+        parts: [
+          {
+            name: "Bed",
+            ports: [],
+            parts: [
+              {
+                name: "SoilProbe",
+                ports: [{ name: "moisture", direction: "out", kind: "sensor" }],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+    expect(sourceMap["part:Farm.Greenhouse.Bed.SoilProbe"]?.[0]?.start).toEqual({
+      line: 6,
+      column: 14,
+    });
+    expect(sourceMap["port:Farm.Greenhouse.Bed.SoilProbe.moisture"]).toHaveLength(1);
+  });
+
+  it("reads connections between twin systems in the #dartwin body", () => {
+    const text = `#dartwin Farm {
+  #twinsystem Scheduler { #digitaltwin PlanDT { out port plan; } }
+  #twinsystem Greenhouse { #digitaltwin ClimateDT { in port schedule; } }
+  connect Scheduler.PlanDT.plan to Greenhouse.ClimateDT.schedule name daily_plan;
+}`;
+    const { model, diagnostics, sourceMap } = parseDarTwinDocument(text);
+    expect(diagnostics).toEqual([]);
+    expect(model.connections).toEqual([
+      { from: "Scheduler.PlanDT.plan", to: "Greenhouse.ClimateDT.schedule", name: "daily_plan" },
+    ]);
+    expect(model.systems.map((system) => system.connections)).toEqual([[], []]);
+    expect(sourceMap["connection#0.to"]?.[0]?.start).toEqual({ line: 4, column: 36 });
+  });
+
+  it("reads goal refinements and conflicts", () => {
+    const text = `#dartwin Farm {
+  #goal increase_yield;
+  #goal optimize_irrigation refines increase_yield conflicts with save_energy, grow_fast {
+    doc /* water when the soil is dry */
+  }
+  #goal save_energy conflicts with optimize_irrigation;
+  #goal broken refines;
+}`;
+    const { model, diagnostics, sourceMap } = parseDarTwinDocument(text);
+    expect(model.goals).toEqual([
+      { name: "increase_yield" },
+      {
+        name: "optimize_irrigation",
+        refines: "increase_yield",
+        conflicts_with: ["save_energy", "grow_fast"],
+        doc: "water when the soil is dry",
+      },
+      { name: "save_energy", conflicts_with: ["optimize_irrigation"] },
+      { name: "broken" },
+    ]);
+    expect(sourceMap["goal:optimize_irrigation.refines"]?.[0]?.start).toEqual({
+      line: 3,
+      column: 37,
+    });
+    expect(sourceMap["goal:optimize_irrigation.conflicts#1"]?.[0]?.start).toEqual({
+      line: 3,
+      column: 80,
+    });
+    expect(diagnostics.map((diagnostic) => diagnostic.range.start)).toEqual([
+      { line: 7, column: 3 },
+    ]);
+  });
+
+  it("reads measurable goal criteria", () => {
+    const text = `#dartwin Farm {
+  #goal save_water {
+    doc /* less water than before */
+    metric water_consumption : l/day < before;
+    metric yield >= 0.95 baseline 1.2;
+    metric leaks = 0;
+    metric pressure : bar > high;
+  }
+}`;
+    const { model, diagnostics, sourceMap } = parseDarTwinDocument(text);
+    expect(model.goals[0]?.criteria).toEqual([
+      { metric: "water_consumption", unit: "l/day", comparator: "<" },
+      { metric: "yield", comparator: ">=", target: 0.95, baseline: 1.2 },
+      { metric: "leaks", comparator: "=", target: 0 },
+    ]);
+    expect(sourceMap["goal:save_water.metric#1"]?.[0]).toEqual({
+      start: { line: 5, column: 5 },
+      end: { line: 5, column: 38 },
+    });
+    expect(diagnostics.map((diagnostic) => [diagnostic.message, diagnostic.range.start])).toEqual([
+      [
+        'Malformed metric statement. Expected "metric <name> [: <unit>] <comparator> (<number> | before) [baseline <number>];".',
+        { line: 7, column: 5 },
+      ],
+    ]);
+  });
+
+  it("keeps #dartrans slices out of the top-level model", () => {
+    const text = `#dartwin Evolve {
+  #twinsystem Base { #digitaltwin DT { port p; } }
+  #dartrans {
+    #core { #goal shared; }
+    #before {
+      #twinsystem Base { #digitaltwin DT { port p; } }
+    }
+    #after {
+      #twinsystem Base { #digitaltwin DT2 { port q; } }
+      allocate shared to Base.DT2;
+    }
+  }
+}`;
+    const { model, diagnostics } = parseDarTwinDocument(text);
+    expect(diagnostics).toEqual([]);
+    expect(model.systems.map((system) => system.name)).toEqual(["Base"]);
+    expect(model.goals).toEqual([]);
+    expect(model.allocations).toEqual([]);
+    expect(model.dartrans).toEqual({
+      core: { goals: [{ name: "shared" }] },
+      before: {
+        systems: [
+          {
+            name: "Base",
+            digital_twins: [{ name: "DT", ports: [{ name: "p" }] }],
+            original_twins: [],
+            connections: [],
+          },
+        ],
+      },
+      after: {
+        systems: [
+          {
+            name: "Base",
+            digital_twins: [{ name: "DT2", ports: [{ name: "q" }] }],
+            original_twins: [],
+            connections: [],
+          },
+        ],
+        allocations: [{ goal: "shared", target: "Base.DT2" }],
+      },
+    });
+  });
+});
@@ -0,0 +1,178 @@
+export type TokenKind =
+  | "keyword"
+  | "identifier"
+  | "reference"
+  | "lbrace"
+  | "rbrace"
+  | "semicolon"
+  | "colon"
+  | "comma"
+  | "comparator"
+  | "lineComment"
+  | "blockComment"
+  | "unknown"
+  | "eof";
+
+export interface Token {
+  kind: TokenKind;
+  /** Raw source text of the token. */
+  text: string;
+  /** Lower-cased text for keywords, the raw text otherwise. */
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface LexError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface LexResult {
+  tokens: Token[];
+  errors: LexError[];
+}
+
+export const KEYWORDS = new Set([
+  "#dartwin",
+  "#twinsystem",
+  "#digitaltwin",
+  "#goal",
+  "#dartrans",
+  "#core",
+  "#before",
+  "#after",
+  "part",
+  "port",
+  "in",
+  "out",
+  "inout",
+  "connect",
+  "allocate",
+  "to",
+  "name",
+  "doc",
+  "refines",
+  "conflicts",
+  "with",
+  "metric",
+  "baseline",
+  "before",
+]);
+
+const WORD_CHAR = /[\w-]/;
+
+const isWordChar = (char: string | undefined) => char !== undefined && WORD_CHAR.test(char);
+
+export const isComment = (token: Token) =>
+  token.kind === "lineComment" || token.kind === "blockComment";
+
+export function tokenize(text: string): LexResult {
+  const tokens: Token[] = [];
+  const errors: LexError[] = [];
+  const push = (kind: TokenKind, start: number, end: number, value?: string) => {
+    const raw = text.slice(start, end);
+    tokens.push({ kind, text: raw, value: value ?? raw, start, end });
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "/" && next === "/") {
+      const lineEnd = text.indexOf("\n", i);
+      const end = lineEnd === -1 ? text.length : lineEnd;
+      push("lineComment", i, end);
+      i = end;
+      continue;
+    }
+
+    if (char === "/" && next === "*") {
+      const commentEnd = text.indexOf("*/", i + 2);
+      if (commentEnd === -1) {
+        errors.push({ message: "Unterminated block comment.", start: i, end: text.length });
+        push("blockComment", i, text.length);
+        i = text.length;
+        continue;
+      }
+      push("blockComment", i, commentEnd + 2);
+      i = commentEnd + 2;
+      continue;
+    }
+
+    if (char === "{") {
+      push("lbrace", i, i + 1);
+      i++;
+      continue;
+    }
+
+    if (char === "}") {
+      push("rbrace", i, i + 1);
+      i++;
+      continue;
+    }
+
+    if (char === ";") {
+      push("semicolon", i, i + 1);
+      i++;
+      continue;
+    }
+
+    if (char === ":") {
+      push("colon", i, i + 1);
+      i++;
+      continue;
+    }
+
+    if (char === ",") {
+      push("comma", i, i + 1);
+      i++;
+      continue;
+    }
+
+    if (char === "<" || char === ">" || char === "=") {
+      const end = char !== "=" && next === "=" ? i + 2 : i + 1;
+      push("comparator", i, end);
+      i = end;
+      continue;
+    }
+
+    if (char === "#" || isWordChar(char)) {
+      const start = i;
+      i++;
+      while (isWordChar(text[i])) {
+        i++;
+      }
+      let dotted = false;
+      while (char !== "#" && text[i] === "." && isWordChar(text[i + 1])) {
+        dotted = true;
+        i += 2;
+        while (isWordChar(text[i])) {
+          i++;
+        }
+      }
+      const raw = text.slice(start, i);
+      if (dotted) {
+        push("reference", start, i);
+      } else if (KEYWORDS.has(raw.toLowerCase())) {
+        push("keyword", start, i, raw.toLowerCase());
+      } else {
+        push("identifier", start, i);
+      }
+      continue;
+    }
+
+    push("unknown", i, i + 1);
+    i++;
+  }
+
+  tokens.push({ kind: "eof", text: "", value: "", start: text.length, end: text.length });
+  return { tokens, errors };
+}
@@ -1,16 +1,34 @@
-import type {
-  Allocation,
-  Connection,
-  DarTrans,
-  DarTwinModel,
-  Goal,
-  PartialDarTwinSlice,
-  TwinSystem,
+import {
+  PORT_DIRECTIONS,
+  PORT_KINDS,
+  type Allocation,
+  type Comparator,
+  type Connection,
+  type DarTrans,
+  type DarTwinModel,
+  type DigitalTwin,
+  type Goal,
+  type GoalCriterion,
+  type OriginalTwin,
+  type PartialDarTwinSlice,
+  type Port,
+  type PortDirection,
+  type PortKind,
+  type TwinSystem,
 } from "../types/dartwin";
+import type { Diagnostic } from "../types/diagnostics";
+import { isComment, tokenize, type Token } from "./lexer";
+import { createSourceLocator } from "./sourceLocator";
+import { sourceKeys, type ConnectionEnd, type SourceMap } from "./sourceMap";
 
-const WHITESPACE_ONLY_LINE = /^\s*$/;
+export interface ParseResult {
+  model: DarTwinModel;
+  diagnostics: Diagnostic[];
+  /** Where each top-level element was declared; `#dartrans` slices are not mapped. */
+  sourceMap: SourceMap;
+}
 
-const sanitizeName = (value: string) => value.trim();
+const WHITESPACE_ONLY_LINE = /^\s*$/;
 
 const normalizeWhitespace = (value: string) =>
   value
@@ -20,225 +38,717 @@ const normalizeWhitespace = (value: string) =>
     .join(" ")
     .trim();
 
-interface ExtractedBlock {
-  body: string;
-  end: number;
-}
+const blockCommentBody = (comment: Token) => comment.text.replace(/^\/\*/, "").replace(/\*\/$/, "");
+
+/** Numbers lex as names (`12`, `-3`) or dotted references (`0.75`). */
+const NUMBER = /^-?\d+(?:\.\d+)?$/;
+
+const CONNECTION_NAME_COMMENT = /^\/\/\s*name\s*:\s*([\w-]+)/i;
 
-const extractBlock = (src: string, openIdx: number): ExtractedBlock => {
-  let depth = 0;
-  for (let i = openIdx; i < src.length; i++) {
-    const char = src[i];
-    if (char === "{") {
-      depth++;
-    } else if (char === "}") {
-      depth--;
-      if (depth === 0) {
-        return { body: src.slice(openIdx + 1, i), end: i };
+const DARTRANS_SECTIONS: Record<string, keyof DarTrans> = {
+  "#core": "core",
+  "#before": "before",
+  "#after": "after",
+};
+
+const createEmptyModel = (): DarTwinModel => ({
+  type: "DarTwin",
+  name: "",
+  systems: [],
+  goals: [],
+  allocations: [],
+});
+
+/** Thrown to abandon a malformed statement; the caller reports it and resynchronises. */
+class StatementError extends Error {}
+
+const createParser = (text: string) => {
+  const locator = createSourceLocator(text);
+  const lexed = tokenize(text);
+  const tokens = lexed.tokens.filter((token) => !isComment(token));
+  const comments = lexed.tokens.filter(isComment);
+  const diagnostics: Diagnostic[] = lexed.errors.map((error) => ({
+    severity: "error",
+    message: error.message,
+    range: locator.range(error.start, error.end),
+  }));
+
+  const sourceMap: SourceMap = {};
+  let recordLocations = true;
+  let index = 0;
+
+  const report = (message: string, start: number, end: number) => {
+    diagnostics.push({ severity: "error", message, range: locator.range(start, end) });
+  };
+
+  const record = (key: string, start: number, end: number) => {
+    if (!recordLocations) {
+      return;
+    }
+    (sourceMap[key] ??= []).push(locator.range(start, end));
+  };
+
+  const peek = () => tokens[Math.min(index, tokens.length - 1)];
+
+  const previous = () => tokens[Math.max(0, index - 1)];
+
+  const advance = () => {
+    const token = peek();
+    if (token.kind !== "eof") {
+      index++;
+    }
+    return token;
+  };
+
+  const isKeyword = (token: Token, keyword: string) =>
+    token.kind === "keyword" && token.value === keyword;
+
+  /** Names may reuse contextual keywords such as `name` or `to`, but never `#` directives. */
+  const isName = (token: Token) =>
+    token.kind === "identifier" ||
+    (token.kind === "keyword" && !token.value.startsWith("#"));
+
+  const isReference = (token: Token) => token.kind === "reference" || isName(token);
+
+  const expect = (predicate: (token: Token) => boolean) => {
+    const token = peek();
+    if (!predicate(token)) {
+      throw new StatementError();
+    }
+    return advance();
+  };
+
+  const expectKeyword = (keyword: string) => expect((token) => isKeyword(token, keyword));
+
+  const commentsBetween = (start: number, end: number) =>
+    comments.filter((comment) => comment.start >= start && comment.end <= end);
+
+  /** Skips the rest of a statement, including a nested block if one follows. */
+  const skipStatement = () => {
+    while (true) {
+      const token = peek();
+      if (token.kind === "eof" || token.kind === "rbrace") {
+        return;
+      }
+      advance();
+      if (token.kind === "semicolon") {
+        return;
+      }
+      if (token.kind === "lbrace") {
+        skipBlockBody();
+        return;
       }
     }
-  }
+  };
 
-  return { body: "", end: src.length };
-};
+  const skipBlockBody = () => {
+    let depth = 1;
+    while (depth > 0) {
+      const token = advance();
+      if (token.kind === "eof") {
+        return;
+      }
+      if (token.kind === "lbrace") {
+        depth++;
+      } else if (token.kind === "rbrace") {
+        depth--;
+      }
+    }
+  };
 
-const parsePorts = (body: string): string[] => {
-  const ports: string[] = [];
-  const portRegex = /port\s+([\w-]+)\s*;/gi;
-  let match: RegExpExecArray | null;
-  while ((match = portRegex.exec(body))) {
-    ports.push(sanitizeName(match[1]));
-  }
-  return ports;
-};
+  /**
+   * Parses a single-line statement. `parseBody` consumes everything except the
+   * terminating `;`; any shape mismatch is reported against the whole statement.
+   */
+  const parseStatement = <T>(keyword: string, usage: string, parseBody: () => T): T | undefined => {
+    const start = peek().start;
+    try {
+      const result = parseBody();
+      if (peek().kind === "semicolon") {
+        advance();
+      } else {
+        report(`Missing ';' after ${keyword} statement.`, start, previous().end);
+      }
+      return result;
+    } catch (error) {
+      if (!(error instanceof StatementError)) {
+        throw error;
+      }
+      while (!["semicolon", "rbrace", "lbrace", "eof"].includes(peek().kind)) {
+        advance();
+      }
+      report(`Malformed ${keyword} statement. Expected "${usage}".`, start, previous().end);
+      if (peek().kind === "semicolon") {
+        advance();
+      }
+      return undefined;
+    }
+  };
 
-const parseDigitalTwins = (body: string): TwinSystem["digital_twins"] => {
-  const digitalTwins: TwinSystem["digital_twins"] = [];
-  const dtRegex = /#digitaltwin\s+([\w-]+)\s*\{/gi;
-  let match: RegExpExecArray | null;
-  while ((match = dtRegex.exec(body))) {
-    const name = sanitizeName(match[1]);
-    const openIdx = body.indexOf("{", match.index + match[0].length - 1);
-    const { body: dtBody, end } = extractBlock(body, openIdx);
-    digitalTwins.push({ name, ports: parsePorts(dtBody) });
-    dtRegex.lastIndex = end + 1;
-  }
-  return digitalTwins;
-};
+  /**
+   * Parses `<keyword> <name> {` (or `<keyword> {` when `named` is false) and
+   * then the block body. Returns false when the header is malformed.
+   */
+  const parseBlock = (
+    keyword: string,
+    named: boolean,
+    parseItem: (token: Token) => boolean,
+    onHeader?: (name: Token) => void
+  ): boolean => {
+    const start = peek().start;
+    advance();
+    let name: Token | undefined;
+    if (named) {
+      if (!isName(peek())) {
+        report(
+          `Malformed ${keyword} block header. Expected "${keyword} <name> {".`,
+          start,
+          peek().end
+        );
+        skipStatement();
+        return false;
+      }
+      name = advance();
+    }
+    if (peek().kind !== "lbrace") {
+      const usage = named ? `${keyword} <name> {` : `${keyword} {`;
+      report(`Malformed ${keyword} block header. Expected "${usage}".`, start, previous().end);
+      skipStatement();
+      return false;
+    }
+    const open = advance();
+    if (name) {
+      onHeader?.(name);
+    }
+    parseBlockBody(open, parseItem);
+    return true;
+  };
 
-const parseOriginalTwins = (body: string): TwinSystem["original_twins"] => {
-  const originalTwins: TwinSystem["original_twins"] = [];
-  const partRegex = /part\s+([\w-]+)\s*\{/gi;
-  let match: RegExpExecArray | null;
-  while ((match = partRegex.exec(body))) {
-    const name = sanitizeName(match[1]);
-    const openIdx = body.indexOf("{", match.index + match[0].length - 1);
-    const { body: partBody, end } = extractBlock(body, openIdx);
-    originalTwins.push({ name, ports: parsePorts(partBody) });
-    partRegex.lastIndex = end + 1;
-  }
-  return originalTwins;
-};
+  const parseBlockBody = (open: Token, parseItem: (token: Token) => boolean) => {
+    while (true) {
+      const token = peek();
+      if (token.kind === "rbrace") {
+        advance();
+        return;
+      }
+      if (token.kind === "eof") {
+        report("Missing closing brace '}' for this block.", open.start, open.end);
+        return;
+      }
+      if (!parseItem(token)) {
+        reportUnexpected(token);
+        skipStatement();
+      }
+    }
+  };
 
-const parseConnectionName = (inline: string | undefined, trailing: string | undefined) => {
-  if (inline) {
-    return sanitizeName(inline);
-  }
-  if (!trailing) {
-    return undefined;
-  }
-  const commentMatch = /\/\/\s*name\s*:\s*([\w-]+)/i.exec(trailing);
-  return commentMatch ? sanitizeName(commentMatch[1]) : undefined;
-};
+  const reportUnexpected = (token: Token) => {
+    if (token.kind === "identifier") {
+      report(`Unknown keyword "${token.text}".`, token.start, token.end);
+    } else if (token.kind === "keyword") {
+      report(`"${token.text}" is not allowed here.`, token.start, token.end);
+    } else if (token.kind === "semicolon") {
+      report("Unexpected ';'.", token.start, token.end);
+    } else if (token.kind === "lbrace") {
+      report("Expected a block header before '{'.", token.start, token.end);
+    } else {
+      report(`Unexpected "${token.text}".`, token.start, token.end);
+    }
+  };
 
-const parseConnections = (body: string): Connection[] => {
-  const connections: Connection[] = [];
-  const connectRegex =
-    /connect\s+([\w.]+)\s+to\s+([\w.]+)(?:\s+name\s+([\w-]+))?\s*;([^\n]*)/gi;
-  let match: RegExpExecArray | null;
-  while ((match = connectRegex.exec(body))) {
-    const [, from, to, inlineName, trailing] = match;
-    const name = parseConnectionName(inlineName, trailing);
-    connections.push({
-      from: sanitizeName(from),
-      to: sanitizeName(to),
-      ...(name ? { name } : {}),
+  const isDirection = (token: Token) =>
+    token.kind === "keyword" && (PORT_DIRECTIONS as readonly string[]).includes(token.value);
+
+  /** `[in|out|inout] port <name> [: <kind>];` */
+  const parsePort = (system: TwinSystem, owner: DigitalTwin | OriginalTwin, ownerPath: string) => {
+    const parsed = parseStatement("port", "[in|out|inout] port <name> [: <kind>];", () => {
+      const direction = isDirection(peek()) ? (advance().value as PortDirection) : undefined;
+      expectKeyword("port");
+      const name = expect(isName);
+      let kind: Token | undefined;
+      if (peek().kind === "colon") {
+        advance();
+        kind = expect(isName);
+      }
+      return { direction, name, kind };
     });
-  }
-  return connections;
-};
+    if (parsed === undefined) {
+      return;
+    }
+    const { direction, name, kind } = parsed;
+    const port: Port = { name: name.text };
+    if (direction) {
+      port.direction = direction;
+    }
+    if (kind && (PORT_KINDS as readonly string[]).includes(kind.text.toLowerCase())) {
+      port.kind = kind.text.toLowerCase() as PortKind;
+    } else if (kind) {
+      report(
+        `Unknown port kind "${kind.text}". Expected one of ${PORT_KINDS.join(", ")}.`,
+        kind.start,
+        kind.end
+      );
+    }
+    owner.ports.push(port);
+    record(sourceKeys.port(system.name, ownerPath, name.text), name.start, name.end);
+  };
+
+  /**
+   * Parses a block that owns ports. `prefix` is the path of an enclosing part,
+   * and `parseNested` handles any items other than ports.
+   */
+  const parsePortOwner = (
+    keyword: string,
+    system: TwinSystem,
+    owner: DigitalTwin | OriginalTwin,
+    keyFor: (system: string, owner: string) => string,
+    prefix?: string,
+    parseNested?: (token: Token, path: string) => boolean
+  ) => {
+    let path = "";
+    return parseBlock(
+      keyword,
+      true,
+      (token) => {
+        if (isKeyword(token, "port") || isDirection(token)) {
+          parsePort(system, owner, path);
+          return true;
+        }
+        return parseNested?.(token, path) ?? false;
+      },
+      (name) => {
+        owner.name = name.text;
+        path = prefix ? `${prefix}.${name.text}` : name.text;
+        record(keyFor(system.name, path), name.start, name.end);
+      }
+    );
+  };
 
-const parseTwinSystems = (body: string): TwinSystem[] => {
-  const systems: TwinSystem[] = [];
-  const systemRegex = /#twinsystem\s+([\w-]+)\s*\{/gi;
-  let match: RegExpExecArray | null;
-  while ((match = systemRegex.exec(body))) {
-    const name = sanitizeName(match[1]);
-    const openIdx = body.indexOf("{", match.index + match[0].length - 1);
-    const { body: systemBody, end } = extractBlock(body, openIdx);
-    systems.push({
-      name,
-      digital_twins: parseDigitalTwins(systemBody),
-      original_twins: parseOriginalTwins(systemBody),
-      connections: parseConnections(systemBody),
+  const parseDigitalTwin = (system: TwinSystem) => {
+    const dt: DigitalTwin = { name: "", ports: [] };
+    if (parsePortOwner("#digitaltwin", system, dt, sourceKeys.digitalTwin)) {
+      system.digital_twins.push(dt);
+    }
+  };
+
+  /** `part <name> { ... }`, which may hold ports and further parts. */
+  const parsePart = (system: TwinSystem, parts: OriginalTwin[], prefix?: string) => {
+    const part: OriginalTwin = { name: "", ports: [] };
+    const nested: OriginalTwin[] = [];
+    const parsed = parsePortOwner("part", system, part, sourceKeys.part, prefix, (token, path) => {
+      if (!isKeyword(token, "part")) {
+        return false;
+      }
+      parsePart(system, nested, path);
+      return true;
     });
-    systemRegex.lastIndex = end + 1;
-  }
-  return systems;
-};
+    if (nested.length > 0) {
+      part.parts = nested;
+    }
+    if (parsed) {
+      parts.push(part);
+    }
+  };
 
-const parseGoals = (body: string): Goal[] => {
-  const goals: Goal[] = [];
-  const goalRegex = /#goal\s+([\w-]+)\s*(\{)?/gi;
-  let match: RegExpExecArray | null;
-  while ((match = goalRegex.exec(body))) {
-    const name = sanitizeName(match[1]);
-    let doc: string | undefined;
-    const hasBlock = match[2] === "{";
-    if (hasBlock) {
-      const openIdx = body.indexOf("{", match.index + match[0].length - 1);
-      const { body: goalBody, end } = extractBlock(body, openIdx);
-      const docMatch = /doc\s*\/\*([\s\S]*?)\*\//i.exec(goalBody);
-      if (docMatch) {
-        doc = normalizeWhitespace(docMatch[1]);
-      }
-      goalRegex.lastIndex = end + 1;
-    }
-    goals.push({ name, ...(doc ? { doc } : {}) });
-  }
-  return goals;
-};
+  const trailingConnectionName = (semicolon: Token) => {
+    const nextStart = peek().start;
+    const [comment] = commentsBetween(semicolon.end, nextStart);
+    if (!comment || comment.kind !== "lineComment") {
+      return undefined;
+    }
+    if (text.slice(semicolon.end, comment.start).includes("\n")) {
+      return undefined;
+    }
+    return CONNECTION_NAME_COMMENT.exec(comment.text)?.[1];
+  };
 
-const parseAllocations = (body: string): Allocation[] => {
-  const allocations: Allocation[] = [];
-  const allocRegex = /allocate\s+([\w-]+)\s+to\s+([\w.-]+)\s*;/gi;
-  let match: RegExpExecArray | null;
-  while ((match = allocRegex.exec(body))) {
-    allocations.push({ goal: sanitizeName(match[1]), target: sanitizeName(match[2]) });
-  }
-  return allocations;
-};
+  /** `connect` inside a `#twinsystem`, or between systems when `system` is undefined. */
+  const parseConnect = (connections: Connection[], system?: string) => {
+    const start = peek().start;
+    const parsed = parseStatement("connect", "connect <port> to <port> [name <name>];", () => {
+      expectKeyword("connect");
+      const from = expect(isReference);
+      expectKeyword("to");
+      const to = expect(isReference);
+      let name: string | undefined;
+      if (isKeyword(peek(), "name")) {
+        advance();
+        name = expect(isName).text;
+      }
+      return { from, to, name };
+    });
+    if (!parsed) {
+      return;
+    }
+    const { from, to } = parsed;
+    let name = parsed.name;
+    if (!name && previous().kind === "semicolon") {
+      name = trailingConnectionName(previous());
+    }
+    const index = connections.length;
+    connections.push({ from: from.text, to: to.text, ...(name ? { name } : {}) });
+    const endKey = (end: ConnectionEnd) =>
+      system === undefined
+        ? sourceKeys.dartwinConnectionEnd(index, end)
+        : sourceKeys.connectionEnd(system, index, end);
+    record(
+      system === undefined
+        ? sourceKeys.dartwinConnection(index)
+        : sourceKeys.connection(system, index),
+      start,
+      to.end
+    );
+    record(endKey("from"), from.start, from.end);
+    record(endKey("to"), to.start, to.end);
+  };
 
-const buildSlice = (body: string): PartialDarTwinSlice => {
-  const slice: PartialDarTwinSlice = {};
-  const systems = parseTwinSystems(body);
-  const goals = parseGoals(body);
-  const allocations = parseAllocations(body);
-
-  if (systems.length > 0) {
-    slice.systems = systems;
-  }
-  if (goals.length > 0) {
-    slice.goals = goals;
-  }
-  if (allocations.length > 0) {
-    slice.allocations = allocations;
-  }
-
-  return slice;
-};
+  /** Records the range of a block that was just closed by its `}`. */
+  const recordBlock = (key: string, start: number) => {
+    if (previous().kind === "rbrace") {
+      record(key, start, previous().end);
+    }
+  };
+
+  const parseTwinSystem = (systems: TwinSystem[]) => {
+    const start = peek().start;
+    const system: TwinSystem = {
+      name: "",
+      digital_twins: [],
+      original_twins: [],
+      connections: [],
+    };
+    const parsed = parseBlock(
+      "#twinsystem",
+      true,
+      (token) => {
+        if (isKeyword(token, "#digitaltwin")) {
+          parseDigitalTwin(system);
+          return true;
+        }
+        if (isKeyword(token, "part")) {
+          parsePart(system, system.original_twins);
+          return true;
+        }
+        if (isKeyword(token, "connect")) {
+          parseConnect(system.connections, system.name);
+          return true;
+        }
+        return false;
+      },
+      (name) => {
+        system.name = name.text;
+        record(sourceKeys.system(name.text), name.start, name.end);
+      }
+    );
+    if (parsed) {
+      systems.push(system);
+      recordBlock(sourceKeys.systemBlock(system.name), start);
+    }
+  };
+
+  /**
+   * Parses the `refines <goal>` and `conflicts with <goal>, ...` clauses after
+   * a goal's name, in either order. Returns false when a clause is malformed.
+   */
+  const parseGoalRelations = (goal: Goal): boolean => {
+    while (isKeyword(peek(), "refines") || isKeyword(peek(), "conflicts")) {
+      if (isKeyword(advance(), "refines")) {
+        if (goal.refines !== undefined || !isName(peek())) {
+          return false;
+        }
+        const parent = advance();
+        goal.refines = parent.text;
+        record(sourceKeys.goalRefines(goal.name), parent.start, parent.end);
+        continue;
+      }
+      if (!isKeyword(peek(), "with")) {
+        return false;
+      }
+      advance();
+      const conflicts = (goal.conflicts_with ??= []);
+      do {
+        if (!isName(peek())) {
+          return false;
+        }
+        const other = advance();
+        record(sourceKeys.goalConflict(goal.name, conflicts.length), other.start, other.end);
+        conflicts.push(other.text);
+      } while (peek().kind === "comma" && advance());
+    }
+    return true;
+  };
+
+  const expectNumber = () => Number(expect((token) => NUMBER.test(token.text)).text);
+
+  /**
+   * `metric <name> [: <unit>] <comparator> (<number> | before) [baseline <number>];`
+   * The unit is everything between the colon and the comparator, e.g. `l/day`.
+   */
+  const parseCriterion = (goal: Goal) => {
+    const start = peek().start;
+    const parsed = parseStatement(
+      "metric",
+      "metric <name> [: <unit>] <comparator> (<number> | before) [baseline <number>];",
+      () => {
+        expectKeyword("metric");
+        const metric = expect(isName);
+        let unit: string | undefined;
+        if (peek().kind === "colon") {
+          const colon = advance();
+          while (!["comparator", "semicolon", "lbrace", "rbrace", "eof"].includes(peek().kind)) {
+            advance();
+          }
+          unit = text.slice(colon.end, previous().end).trim();
+          if (!unit) {
+            throw new StatementError();
+          }
+        }
+        const comparator = expect((token) => token.kind === "comparator").text as Comparator;
+        let target: number | undefined;
+        if (isKeyword(peek(), "before")) {
+          advance();
+        } else {
+          target = expectNumber();
+        }
+        let baseline: number | undefined;
+        if (isKeyword(peek(), "baseline")) {
+          advance();
+          baseline = expectNumber();
+        }
+        return { metric, unit, comparator, target, baseline, end: previous().end };
+      }
+    );
+    if (!parsed) {
+      return;
+    }
+    const { metric, unit, comparator, target, baseline, end } = parsed;
+    const criterion: GoalCriterion = { metric: metric.text, comparator };
+    if (unit) {
+      criterion.unit = unit;
+    }
+    if (target !== undefined) {
+      criterion.target = target;
+    }
+    if (baseline !== undefined) {
+      criterion.baseline = baseline;
+    }
+    const criteria = (goal.criteria ??= []);
+    record(sourceKeys.goalCriterion(goal.name, criteria.length), start, end);
+    criteria.push(criterion);
+  };
+
+  const parseGoal = (goals: Goal[]) => {
+    const start = peek().start;
+    const malformed = (end: number) => {
+      report(
+        'Malformed #goal declaration. Expected "#goal <name> [refines <goal>] [conflicts with <goal>, ...] { ... }" or "#goal <name> ...;".',
+        start,
+        end
+      );
+      skipStatement();
+    };
+    advance();
+    if (!isName(peek())) {
+      malformed(peek().end);
+      return;
+    }
+    const nameToken = advance();
+    const goal: Goal = { name: nameToken.text };
+    goals.push(goal);
+    record(sourceKeys.goal(goal.name), nameToken.start, nameToken.end);
+    if (!parseGoalRelations(goal)) {
+      malformed(previous().end);
+      return;
+    }
+
+    if (peek().kind === "semicolon") {
+      advance();
+      return;
+    }
+    if (peek().kind !== "lbrace") {
+      report("Missing ';' after #goal statement.", start, previous().end);
+      return;
+    }
+
+    const open = advance();
+    parseBlockBody(open, (token) => {
+      if (isKeyword(token, "metric")) {
+        parseCriterion(goal);
+        return true;
+      }
+      if (!isKeyword(token, "doc")) {
+        return false;
+      }
+      advance();
+      const [comment] = commentsBetween(token.end, peek().start);
+      if (!comment || comment.kind !== "blockComment") {
+        report("Expected a /* ... */ comment after doc.", token.start, token.end);
+      } else {
+        const doc = normalizeWhitespace(blockCommentBody(comment));
+        if (doc) {
+          goal.doc = doc;
+        }
+      }
+      if (peek().kind === "semicolon") {
+        advance();
+      }
+      return true;
+    });
+  };
 
-const parseDarTrans = (body: string): DarTrans | undefined => {
-  const transRegex = /#dartrans\s*\{/i;
-  const match = transRegex.exec(body);
-  if (!match) {
-    return undefined;
-  }
-
-  const openIdx = body.indexOf("{", match.index + match[0].length - 1);
-  const { body: darTransBody } = extractBlock(body, openIdx);
-  const dartrans: DarTrans = {};
-
-  ("core before after".split(" ") as Array<keyof DarTrans>).forEach((section) => {
-    const sectionRegex = new RegExp(`#${section}\\s*\\{`, "i");
-    const sectionMatch = sectionRegex.exec(darTransBody);
-    if (!sectionMatch) {
+  const parseAllocate = (allocations: Allocation[]) => {
+    const start = peek().start;
+    const parsed = parseStatement("allocate", "allocate <goal> to <target>;", () => {
+      expectKeyword("allocate");
+      const goal = expect(isName);
+      expectKeyword("to");
+      const target = expect(isReference);
+      return { goal, target };
+    });
+    if (!parsed) {
       return;
     }
-    const sectionOpenIdx = darTransBody.indexOf("{", sectionMatch.index + sectionMatch[0].length - 1);
-    const { body: sectionBody } = extractBlock(darTransBody, sectionOpenIdx);
-    const slice = buildSlice(sectionBody);
-    dartrans[section] = slice;
-  });
+    const { goal, target } = parsed;
+    const index = allocations.length;
+    allocations.push({ goal: goal.text, target: target.text });
+    record(sourceKeys.allocation(index), start, target.end);
+    record(sourceKeys.allocationGoal(index), goal.start, goal.end);
+    record(sourceKeys.allocationTarget(index), target.start, target.end);
+  };
+
+  /** Items shared by the `#dartwin` body and each `#dartrans` section. */
+  const parseSliceItem = (token: Token, slice: DarTwinModel | Required<PartialDarTwinSlice>) => {
+    if (isKeyword(token, "#twinsystem")) {
+      parseTwinSystem(slice.systems);
+      return true;
+    }
+    if (isKeyword(token, "connect")) {
+      parseConnect((slice.connections ??= []));
+      return true;
+    }
+    if (isKeyword(token, "#goal")) {
+      parseGoal(slice.goals);
+      return true;
+    }
+    if (isKeyword(token, "allocate")) {
+      parseAllocate(slice.allocations);
+      return true;
+    }
+    return false;
+  };
+
+  const toSlice = (slice: Required<PartialDarTwinSlice>): PartialDarTwinSlice => {
+    const result: PartialDarTwinSlice = {};
+    if (slice.systems.length > 0) {
+      result.systems = slice.systems;
+    }
+    if (slice.connections.length > 0) {
+      result.connections = slice.connections;
+    }
+    if (slice.goals.length > 0) {
+      result.goals = slice.goals;
+    }
+    if (slice.allocations.length > 0) {
+      result.allocations = slice.allocations;
+    }
+    return result;
+  };
+
+  const parseDarTrans = (model: DarTwinModel) => {
+    const token = peek();
+    if (model.dartrans) {
+      report("Only one #dartrans block is allowed.", token.start, token.end);
+    }
+    const dartrans: DarTrans = {};
+    recordLocations = false;
+    parseBlock("#dartrans", false, (sectionToken) => {
+      const section =
+        sectionToken.kind === "keyword" ? DARTRANS_SECTIONS[sectionToken.value] : undefined;
+      if (!section) {
+        return false;
+      }
+      if (dartrans[section]) {
+        report(`Duplicate ${sectionToken.text} section.`, sectionToken.start, sectionToken.end);
+      }
+      const slice = { systems: [], connections: [], goals: [], allocations: [] };
+      parseBlock(sectionToken.text, false, (item) => parseSliceItem(item, slice));
+      if (!dartrans[section]) {
+        dartrans[section] = toSlice(slice);
+      }
+      return true;
+    });
+    recordLocations = true;
+    if (!model.dartrans && Object.keys(dartrans).length > 0) {
+      model.dartrans = dartrans;
+    }
+  };
 
-  return Object.keys(dartrans).length > 0 ? dartrans : undefined;
+  const parseDocument = (): DarTwinModel => {
+    const model = createEmptyModel();
+    let seenHeader = false;
+    let reportedOutsideRoot = false;
+
+    while (peek().kind !== "eof" && !isKeyword(peek(), "#dartwin")) {
+      const start = peek().start;
+      skipStatement();
+      if (peek().kind === "rbrace") {
+        advance();
+      }
+      if (!reportedOutsideRoot) {
+        report('Content must be wrapped in a "#dartwin <name> { ... }" block.', start, previous().end);
+        reportedOutsideRoot = true;
+      }
+    }
+
+    if (isKeyword(peek(), "#dartwin")) {
+      seenHeader = true;
+      const start = peek().start;
+      const parsed = parseBlock(
+        "#dartwin",
+        true,
+        (token) => {
+          if (isKeyword(token, "#dartrans")) {
+            parseDarTrans(model);
+            return true;
+          }
+          return parseSliceItem(token, model);
+        },
+        (name) => {
+          model.name = name.text;
+        }
+      );
+      if (parsed) {
+        recordBlock(sourceKeys.dartwinBlock(), start);
+      }
+    }
+
+    if (peek().kind !== "eof") {
+      const last = tokens[tokens.length - 2];
+      report("Unexpected content after the end of the #dartwin block.", peek().start, last.end);
+    }
+
+    if (!seenHeader && !reportedOutsideRoot) {
+      report('Missing "#dartwin <name> {" header.', 0, 0);
+    }
+
+    return model;
+  };
+
+  return { parseDocument, diagnostics, sourceMap };
 };
 
-const createEmptyModel = (): DarTwinModel => ({
-  type: "DarTwin",
-  name: "",
-  systems: [],
-  goals: [],
-  allocations: [],
-});
+export function parseDarTwinDocument(text: string): ParseResult {
+  const parser = createParser(text);
+  const model = parser.parseDocument();
+  const diagnostics = parser.diagnostics
+    .slice()
+    .sort(
+      (a, b) =>
+        a.range.start.line - b.range.start.line || a.range.start.column - b.range.start.column
+    );
+  return { model, diagnostics, sourceMap: parser.sourceMap };
+}
 
 export function parseDarTwin(text: string): DarTwinModel {
-  const headerRegex = /#dartwin\s+([\w-]+)\s*\{/i;
-  const match = headerRegex.exec(text);
-  if (!match) {
-    return createEmptyModel();
-  }
-
-  const name = sanitizeName(match[1]);
-  const openIdx = text.indexOf("{", match.index + match[0].length - 1);
-  const { body } = extractBlock(text, openIdx);
-
-  const systems = parseTwinSystems(body);
-  const goals = parseGoals(body);
-  const allocations = parseAllocations(body);
-  const dartrans = parseDarTrans(body);
-
-  const model: DarTwinModel = {
-    type: "DarTwin",
-    name,
-    systems,
-    goals,
-    allocations,
-  };
-
-  if (dartrans) {
-    model.dartrans = dartrans;
-  }
-
-  return model;
+  return parseDarTwinDocument(text).model;
 }
@@ -0,0 +1,43 @@
+import type { SourcePosition, SourceRange } from "../types/diagnostics";
+
+export interface SourceLocator {
+  position: (offset: number) => SourcePosition;
+  range: (start: number, end: number) => SourceRange;
+  offset: (position: SourcePosition) => number;
+}
+
+export const createSourceLocator = (text: string): SourceLocator => {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const position = (offset: number): SourcePosition => {
+    const clamped = Math.max(0, Math.min(offset, text.length));
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= clamped) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: clamped - lineStarts[low] + 1 };
+  };
+
+  const range = (start: number, end: number): SourceRange => ({
+    start: position(start),
+    end: position(Math.max(start, end)),
+  });
+
+  const offset = ({ line, column }: SourcePosition) => {
+    const lineStart = lineStarts[Math.max(0, Math.min(line - 1, lineStarts.length - 1))];
+    return Math.min(text.length, lineStart + column - 1);
+  };
+
+  return { position, range, offset };
+};
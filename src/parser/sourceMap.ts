@@ -0,0 +1,42 @@
+import type { SourceRange } from "../types/diagnostics";
+
+/**
+ * Source ranges of the top-level model elements, keyed by `sourceKeys`. A key
+ * holds several ranges when the same element is declared more than once.
+ */
+export type SourceMap = Record<string, SourceRange[]>;
+
+export type ConnectionEnd = "from" | "to";
+
+export const sourceKeys = {
+  /** Whole `#dartwin { ... }` block, closing brace included. */
+  dartwinBlock: () => "dartwin:block",
+  system: (system: string) => `system:${system}`,
+  /** Whole `#twinsystem { ... }` block, closing brace included. */
+  systemBlock: (system: string) => `system:${system}:block`,
+  digitalTwin: (system: string, dt: string) => `dt:${system}.${dt}`,
+  part: (system: string, part: string) => `part:${system}.${part}`,
+  port: (system: string, owner: string, port: string) => `port:${system}.${owner}.${port}`,
+  connection: (system: string, index: number) => `connection:${system}#${index}`,
+  connectionEnd: (system: string, index: number, end: ConnectionEnd) =>
+    `connection:${system}#${index}.${end}`,
+  /** A `connect` statement directly in the `#dartwin` body, between twin systems. */
+  dartwinConnection: (index: number) => `connection#${index}`,
+  dartwinConnectionEnd: (index: number, end: ConnectionEnd) => `connection#${index}.${end}`,
+  goal: (goal: string) => `goal:${goal}`,
+  goalRefines: (goal: string) => `goal:${goal}.refines`,
+  goalConflict: (goal: string, index: number) => `goal:${goal}.conflicts#${index}`,
+  goalCriterion: (goal: string, index: number) => `goal:${goal}.metric#${index}`,
+  allocation: (index: number) => `allocation#${index}`,
+  allocationGoal: (index: number) => `allocation#${index}.goal`,
+  allocationTarget: (index: number) => `allocation#${index}.target`,
+};
+
+export const locate = (
+  sourceMap: SourceMap,
+  key: string,
+  occurrence = 0
+): SourceRange | undefined => {
+  const ranges = sourceMap[key];
+  return ranges?.[Math.min(occurrence, ranges.length - 1)];
+};
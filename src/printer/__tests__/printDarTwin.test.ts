@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDarTwin, parseDarTwinDocument } from "../../parser/parseDarTwin";
+import { printDarTwin } from "../printDarTwin";
+
+const sample = `#dartwin StrawberryCultivationTrans {
+  #twinsystem Strawberry {
+    connect Strawberry.Cultivation.MultiSensor        to StrawberryDT.multisensor_input;
+    connect StrawberryDT.actuator_output_irrigation   to Strawberry.Cultivation.IrrigationActuator;
+    connect StrawberryDT.actuator_output_human        to Strawberry.Cultivation.HumanActuator;
+    connect StrawberryDT.actuator_output_ventilation  to Strawberry.Cultivation.VentilationActuator;
+
+    #digitaltwin StrawberryDT {
+      port multisensor_input;
+      port actuator_output_irrigation;
+      port actuator_output_human;
+      port actuator_output_ventilation;
+    }
+
+    part Cultivation {
+      port MultiSensor;
+      port IrrigationActuator;
+      port HumanActuator;
+      port VentilationActuator;
+    }
+  }
+
+  #goal increase_yield { doc /* yield y higher y than before */ }
+  #goal apply_decreased_water { doc /* water consumption w lower w than before */ }
+
+  allocate increase_yield to Strawberry.StrawberryDT;
+  allocate apply_decreased_water to Strawberry.StrawberryDT;
+}`;
+
+const transformation = `#dartwin Evolve {
+  #twinsystem Base {
+    #digitaltwin DT { port p; }
+    part Machine { port q; part Motor { in port shaft; } }
+    connect DT.p to Base.Machine.q; // name: feed
+  }
+  #goal keep_running;
+  #dartrans {
+    #core { #goal keep_running; }
+    #before {
+      #twinsystem Base { #digitaltwin DT { port p; } }
+      allocate keep_running to Base.DT;
+    }
+    #after {
+      #twinsystem Base { #digitaltwin DT2 { } }
+      allocate keep_running to Base.DT2;
+    }
+  }
+}`;
+
+const printDarTwinChecked = (model: ReturnType<typeof parseDarTwin>) => {
+  const printed = printDarTwin(model);
+  expect(parseDarTwinDocument(printed).diagnostics).toEqual([]);
+  return printed;
+};
+
+describe("printDarTwin", () => {
+  it("prints the sample as canonical DSL", () => {
+    expect(printDarTwin(parseDarTwin(sample))).toMatchInlineSnapshot(`
+      "#dartwin StrawberryCultivationTrans {
+        #twinsystem Strawberry {
+          #digitaltwin StrawberryDT {
+            port multisensor_input;
+            port actuator_output_irrigation;
+            port actuator_output_human;
+            port actuator_output_ventilation;
+          }
+
+          part Cultivation {
+            port MultiSensor;
+            port IrrigationActuator;
+            port HumanActuator;
+            port VentilationActuator;
+          }
+
+          connect Strawberry.Cultivation.MultiSensor to StrawberryDT.multisensor_input;
+          connect StrawberryDT.actuator_output_irrigation to Strawberry.Cultivation.IrrigationActuator;
+          connect StrawberryDT.actuator_output_human to Strawberry.Cultivation.HumanActuator;
+          connect StrawberryDT.actuator_output_ventilation to Strawberry.Cultivation.VentilationActuator;
+        }
+
+        #goal increase_yield { doc /* yield y higher y than before */ }
+        #goal apply_decreased_water { doc /* water consumption w lower w than before */ }
+
+        allocate increase_yield to Strawberry.StrawberryDT;
+        allocate apply_decreased_water to Strawberry.StrawberryDT;
+      }
+      "
+    `);
+  });
+
+  it.each([
+    ["the sample", sample],
+    ["a transformation", transformation],
+    [
+      "connections between systems",
+      `#dartwin Farm {
+  #twinsystem Scheduler { #digitaltwin PlanDT { out port plan; } }
+  #twinsystem North { #digitaltwin ClimateDT { in port schedule; } }
+  connect Scheduler.PlanDT.plan to North.ClimateDT.schedule name daily;
+}`,
+    ],
+    [
+      "goal refinements and conflicts",
+      `#dartwin Farm {
+  #goal increase_yield;
+  #goal optimize_irrigation refines increase_yield conflicts with save_energy, grow_fast;
+  #goal save_energy conflicts with optimize_irrigation { doc /* less pumping */ }
+}`,
+    ],
+    [
+      "goal criteria",
+      `#dartwin Farm {
+  #goal save_water refines increase_yield {
+    doc /* less water than before */
+    metric water_consumption : l / day < before baseline 1200;
+    metric leaks = 0;
+  }
+  #goal increase_yield { metric yield : kg/m2 >= 4.5; }
+}`,
+    ],
+  ])("round-trips %s", (_, text) => {
+    const model = parseDarTwin(text);
+    const printed = printDarTwinChecked(model);
+    expect(parseDarTwin(printed)).toEqual(model);
+  });
+
+  it("round-trips criterion numbers that JavaScript writes with an exponent", () => {
+    const model = parseDarTwin("#dartwin Farm { #goal g; }");
+    model.goals[0]!.criteria = [
+      { metric: "energy", comparator: "<", target: 1e21, baseline: 1.5e22 },
+      { metric: "drift", comparator: ">", target: -2.5e-7, baseline: 1e-7 },
+    ];
+    const printed = printDarTwinChecked(model);
+    expect(printed).toContain("metric energy < 1000000000000000000000 baseline 15");
+    expect(printed).toContain("metric drift > -0.00000025 baseline 0.0000001;");
+    expect(parseDarTwin(printed)).toEqual(model);
+  });
+
+  it("prints the model's own name instead of inventing one", () => {
+    const model = parseDarTwin("#dartwin Farm { #goal g; }");
+    expect(parseDarTwin(printDarTwinChecked(model)).name).toBe("Farm");
+    const unnamed = printDarTwin({ ...model, name: "" });
+    expect(unnamed).not.toContain("Untitled");
+    expect(parseDarTwinDocument(unnamed).diagnostics).not.toEqual([]);
+  });
+});
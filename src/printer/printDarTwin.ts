@@ -0,0 +1,131 @@
+import type {
+  Allocation,
+  Connection,
+  DarTrans,
+  DarTwinModel,
+  Goal,
+  GoalCriterion,
+  OriginalTwin,
+  PartialDarTwinSlice,
+  Port,
+  TwinSystem,
+} from "../types/dartwin";
+
+const INDENT = "  ";
+
+const DARTRANS_SECTIONS: Array<keyof DarTrans> = ["core", "before", "after"];
+
+/** Lines of one group; groups are separated by a blank line. */
+type Group = string[];
+
+const indent = (lines: string[]) => lines.map((line) => (line ? `${INDENT}${line}` : line));
+
+const joinGroups = (groups: Group[]) =>
+  groups
+    .filter((group) => group.length > 0)
+    .flatMap((group, index) => (index === 0 ? group : ["", ...group]));
+
+const block = (header: string, groups: Group[]): string[] => {
+  const body = joinGroups(groups);
+  if (body.length === 0) {
+    return [`${header} { }`];
+  }
+  return [`${header} {`, ...indent(body), "}"];
+};
+
+/** `*\/` would end the doc comment early, so it is split up. */
+const escapeDoc = (doc: string) => doc.replace(/\*\//g, "* /");
+
+const printPort = (port: Port) =>
+  `${port.direction ? `${port.direction} ` : ""}port ${port.name}${
+    port.kind ? ` : ${port.kind}` : ""
+  };`;
+
+const printPorts = (ports: Port[]): Group => ports.map(printPort);
+
+const printConnection = (connection: Connection) =>
+  `connect ${connection.from} to ${connection.to}${
+    connection.name ? ` name ${connection.name}` : ""
+  };`;
+
+const printPart = (part: OriginalTwin): string[] =>
+  block(`part ${part.name}`, [printPorts(part.ports), ...(part.parts ?? []).map(printPart)]);
+
+const printTwinSystem = (system: TwinSystem): string[] =>
+  block(`#twinsystem ${system.name}`, [
+    ...system.digital_twins.map((dt) => block(`#digitaltwin ${dt.name}`, [printPorts(dt.ports)])),
+    ...system.original_twins.map(printPart),
+    system.connections.map(printConnection),
+  ]);
+
+/** Plain decimal notation, as the grammar has no exponents: `1e21` prints all its zeros. */
+const printNumber = (value: number) => {
+  const [mantissa, exponent] = String(value).split("e");
+  if (exponent === undefined) {
+    return mantissa!;
+  }
+  const sign = value < 0 ? "-" : "";
+  const [whole, fraction = ""] = mantissa!.replace("-", "").split(".");
+  const digits = `${whole}${fraction}`;
+  const point = whole!.length + Number(exponent);
+  if (point <= 0) {
+    return `${sign}0.${"0".repeat(-point)}${digits}`;
+  }
+  if (point >= digits.length) {
+    return `${sign}${digits}${"0".repeat(point - digits.length)}`;
+  }
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+};
+
+const printCriterion = (criterion: GoalCriterion) =>
+  `metric ${criterion.metric}${criterion.unit ? ` : ${criterion.unit}` : ""} ${
+    criterion.comparator
+  } ${criterion.target !== undefined ? printNumber(criterion.target) : "before"}${
+    criterion.baseline !== undefined ? ` baseline ${printNumber(criterion.baseline)}` : ""
+  };`;
+
+/** Goals with criteria take one line per criterion; otherwise they fit on one line. */
+const printGoal = (goal: Goal): string[] => {
+  const header = [
+    `#goal ${goal.name}`,
+    ...(goal.refines ? [`refines ${goal.refines}`] : []),
+    ...(goal.conflicts_with?.length ? [`conflicts with ${goal.conflicts_with.join(", ")}`] : []),
+  ].join(" ");
+  const doc = goal.doc ? `doc /* ${escapeDoc(goal.doc)} */` : undefined;
+  if (goal.criteria?.length) {
+    return block(header, [[...(doc ? [doc] : []), ...goal.criteria.map(printCriterion)]]);
+  }
+  return [doc ? `${header} { ${doc} }` : `${header};`];
+};
+
+const printAllocation = (allocation: Allocation) =>
+  `allocate ${allocation.goal} to ${allocation.target};`;
+
+const printSlice = (slice: PartialDarTwinSlice): Group[] => [
+  ...(slice.systems ?? []).map(printTwinSystem),
+  (slice.connections ?? []).map(printConnection),
+  (slice.goals ?? []).flatMap(printGoal),
+  (slice.allocations ?? []).map(printAllocation),
+];
+
+const printDarTrans = (dartrans: DarTrans): Group => {
+  const sections = DARTRANS_SECTIONS.flatMap((section) => {
+    const slice = dartrans[section];
+    return slice ? [block(`#${section}`, printSlice(slice))] : [];
+  });
+  return sections.length > 0 ? block("#dartrans", sections) : [];
+};
+
+/**
+ * Serialises a model back to canonical DSL text. The output parses back to an
+ * equal model, although comments and original formatting are not preserved.
+ * Names are printed as they are: one that is not a DSL identifier, or an empty
+ * model name, gives text that does not parse.
+ */
+export function printDarTwin(model: DarTwinModel): string {
+  const groups: Group[] = [
+    ...printSlice(model),
+    ...(model.dartrans ? [printDarTrans(model.dartrans)] : []),
+  ];
+  return `${block(`#dartwin ${model.name}`, groups).join("\n")}\n`;
+}
@@ -0,0 +1,123 @@
+import Ajv from "ajv";
+import { describe, expect, it } from "vitest";
+
+import { parseDarTwin } from "../../parser/parseDarTwin";
+import { isDarTrans, isDarTwinModel } from "../../types/dartwin";
+import {
+  darTwinModelSchema,
+  DARTWIN_FORMAT_VERSION,
+  DARTWIN_SCHEMA_ID,
+  toInterchangeJson,
+} from "../interchange";
+
+const spec = `#dartwin Greenhouse {
+  #twinsystem Strawberry {
+    #digitaltwin StrawberryDT { in port input : sensor; out port output : data; }
+    part Cultivation { port MultiSensor; part Bed { port probe; } }
+    connect Strawberry.Cultivation.MultiSensor to StrawberryDT.input name moisture;
+  }
+  #twinsystem Farm { #digitaltwin SchedulerDT { out port plan; } }
+  connect Farm.SchedulerDT.plan to Strawberry.StrawberryDT.input;
+  #goal increase_yield { doc /* more fruit */ }
+  #goal water_less refines increase_yield conflicts with grow_fast {
+    metric water_consumption : l/day <= before baseline 1200;
+  }
+  #goal grow_fast refines increase_yield;
+  allocate increase_yield to Strawberry.StrawberryDT;
+  #dartrans {
+    #core { #twinsystem Strawberry { #digitaltwin StrawberryDT { port input; } } }
+    #before { #goal increase_yield; }
+    #after { allocate increase_yield to StrawberryDT; }
+  }
+}`;
+
+const ajv = new Ajv({ strict: true });
+ajv.addSchema(darTwinModelSchema);
+const validateModel = ajv.getSchema(DARTWIN_SCHEMA_ID)!;
+const validateDarTrans = ajv.getSchema(`${DARTWIN_SCHEMA_ID}#/definitions/DarTrans`)!;
+
+type Json = unknown;
+
+/** Every path to a value inside `value`, e.g. `["systems", 0, "name"]`. */
+const pathsOf = (
+  value: Json,
+  prefix: Array<string | number> = []
+): Array<Array<string | number>> => {
+  if (Array.isArray(value)) {
+    return value.flatMap((entry, index) => [
+      [...prefix, index],
+      ...pathsOf(entry, [...prefix, index]),
+    ]);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).flatMap(([key, entry]) => [
+      [...prefix, key],
+      ...pathsOf(entry, [...prefix, key]),
+    ]);
+  }
+  return [];
+};
+
+/** Copy of `value` with the entry at `path` replaced, or removed when `replacement` is undefined. */
+const mutate = (value: Json, path: Array<string | number>, replacement: Json): Json => {
+  const copy = structuredClone(value) as Record<string | number, Json>;
+  const parent = path
+    .slice(0, -1)
+    .reduce<Record<string | number, Json>>(
+      (node, key) => node[key] as Record<string | number, Json>,
+      copy
+    );
+  const last = path[path.length - 1]!;
+  if (replacement === undefined && Array.isArray(parent)) {
+    parent.splice(Number(last), 1);
+  } else if (replacement === undefined) {
+    delete parent[last];
+  } else {
+    parent[last] = replacement;
+  }
+  return copy;
+};
+
+const REPLACEMENTS: Json[] = [undefined, 42, "text", null, [], {}, true];
+
+describe("DarTwinModel JSON Schema", () => {
+  const model = parseDarTwin(spec);
+
+  it("is identified by the current format version", () => {
+    expect(DARTWIN_SCHEMA_ID).toBe(`urn:dartwin:schema:model:${DARTWIN_FORMAT_VERSION}`);
+    expect(darTwinModelSchema.description).toContain(`version ${DARTWIN_FORMAT_VERSION}.`);
+  });
+
+  it("accepts the parser's output, with and without the interchange header", () => {
+    expect(validateModel(model)).toBe(true);
+    expect(validateModel(JSON.parse(toInterchangeJson(model)))).toBe(true);
+    expect(isDarTwinModel(JSON.parse(toInterchangeJson(model)))).toBe(true);
+  });
+
+  it("agrees with the type guards on every single-value mutation of a model", () => {
+    const disagreements = pathsOf(model).flatMap((path) =>
+      REPLACEMENTS.map((replacement) => mutate(model, path, replacement))
+        .filter((candidate) => validateModel(candidate) !== isDarTwinModel(candidate))
+        .map(() => path.join("."))
+    );
+
+    expect(disagreements).toEqual([]);
+  });
+
+  it("agrees with isDarTrans on DarTrans documents", () => {
+    const dartrans = model.dartrans!;
+    const candidates = [
+      dartrans,
+      {},
+      [],
+      null,
+      ...pathsOf(dartrans).flatMap((path) =>
+        REPLACEMENTS.map((replacement) => mutate(dartrans, path, replacement))
+      ),
+    ];
+
+    candidates.forEach((candidate) =>
+      expect(validateDarTrans(candidate), JSON.stringify(candidate)).toBe(isDarTrans(candidate))
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import schema from "./dartwin-model.schema.json";
+import type { DarTwinModel } from "../types/dartwin";
+
+export { schema as darTwinModelSchema };
+
+/** Bumped together with the schema's `$id` whenever the interchange format changes shape. */
+export const DARTWIN_FORMAT_VERSION = "2.4";
+
+export const DARTWIN_SCHEMA_ID = schema.$id;
+
+/** Top-level fields that identify an exported document; they are not part of the model. */
+export interface InterchangeHeader {
+  $schema: string;
+  version: string;
+}
+
+export const toInterchangeJson = (model: DarTwinModel) => {
+  const header: InterchangeHeader = { $schema: DARTWIN_SCHEMA_ID, version: DARTWIN_FORMAT_VERSION };
+  return JSON.stringify({ ...header, ...model }, null, 2);
+};
+
+const majorOf = (version: string) => version.split(".")[0];
+
+const minorOf = (version: string) => Number(version.split(".")[1] ?? 0);
+
+/**
+ * Whether a document stamped with `version` can be read as the current format:
+ * same major version, and no minor version newer than this build knows.
+ */
+export const isSupportedVersion = (version: string) =>
+  majorOf(version) === majorOf(DARTWIN_FORMAT_VERSION) &&
+  minorOf(version) <= minorOf(DARTWIN_FORMAT_VERSION);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Maps the entries of `value[key]` when it is an array; anything else is left for the type check. */
+const mapField = (value: unknown, key: string, map: (entry: unknown) => unknown) =>
+  isRecord(value) && Array.isArray(value[key])
+    ? { ...value, [key]: (value[key] as unknown[]).map(map) }
+    : value;
+
+const portFromName = (port: unknown) => (typeof port === "string" ? { name: port } : port);
+
+const upgradeOwner = (owner: unknown) => mapField(owner, "ports", portFromName);
+
+const upgradeSystem = (system: unknown) =>
+  mapField(mapField(system, "digital_twins", upgradeOwner), "original_twins", upgradeOwner);
+
+const upgradeSlice = (slice: unknown) => mapField(slice, "systems", upgradeSystem);
+
+/**
+ * Rewrites a document of an older supported format version into the current
+ * one: version 1.x listed ports as plain names. Other documents, including
+ * ones without a version, are returned unchanged.
+ */
+export const upgradeInterchange = (document: unknown): unknown => {
+  if (
+    !isRecord(document) ||
+    typeof document.version !== "string" ||
+    majorOf(document.version) !== "1"
+  ) {
+    return document;
+  }
+  const upgraded = upgradeSlice(document) as Record<string, unknown>;
+  const { dartrans } = upgraded;
+  return {
+    ...upgraded,
+    version: DARTWIN_FORMAT_VERSION,
+    ...(isRecord(dartrans)
+      ? {
+          dartrans: Object.fromEntries(
+            Object.entries(dartrans).map(([section, slice]) => [section, upgradeSlice(slice)])
+          ),
+        }
+      : {}),
+  };
+};
@@ -2,6 +2,8 @@ export interface DarTwinModel {
   type: "DarTwin";
   name: string;
   systems: TwinSystem[];
+  /** Connections between twin systems; their ends are `System.Owner.port` paths. */
+  connections?: Connection[];
   goals: Goal[];
   allocations: Allocation[];
   dartrans?: DarTrans;
@@ -14,14 +16,31 @@ export interface TwinSystem {
   connections: Connection[];
 }
 
+export const PORT_DIRECTIONS = ["in", "out", "inout"] as const;
+
+export const PORT_KINDS = ["sensor", "actuator", "data", "human"] as const;
+
+export type PortDirection = (typeof PORT_DIRECTIONS)[number];
+
+export type PortKind = (typeof PORT_KINDS)[number];
+
+/** A port; without a direction it may be connected either way. */
+export interface Port {
+  name: string;
+  direction?: PortDirection;
+  kind?: PortKind;
+}
+
 export interface DigitalTwin {
   name: string;
-  ports: string[];
+  ports: Port[];
 }
 
+/** A part of the physical system; parts may contain further parts. */
 export interface OriginalTwin {
   name: string;
-  ports: string[];
+  ports: Port[];
+  parts?: OriginalTwin[];
 }
 
 export interface Connection {
@@ -30,9 +49,29 @@ export interface Connection {
   name?: string;
 }
 
+export const COMPARATORS = ["<", "<=", ">", ">=", "="] as const;
+
+export type Comparator = (typeof COMPARATORS)[number];
+
+/** A measurable condition on a goal, e.g. water consumption in l/day below its baseline. */
+export interface GoalCriterion {
+  metric: string;
+  unit?: string;
+  comparator: Comparator;
+  /** Value the metric is compared with; when omitted it is compared with the baseline. */
+  target?: number;
+  /** Value of the metric in the `before` configuration, if known up front. */
+  baseline?: number;
+}
+
 export interface Goal {
   name: string;
   doc?: string;
+  criteria?: GoalCriterion[];
+  /** The parent goal this goal is a refinement of; goals form refinement trees. */
+  refines?: string;
+  /** Goals that cannot be fully satisfied together with this one. */
+  conflicts_with?: string[];
 }
 
 export interface Allocation {
@@ -48,63 +87,168 @@ export interface DarTrans {
 
 export interface PartialDarTwinSlice {
   systems?: TwinSystem[];
+  connections?: Connection[];
   goals?: Goal[];
   allocations?: Allocation[];
 }
 
 type Guarded<T> = (value: unknown) => value is T;
 
+/** Where a value departs from the interfaces above, e.g. `$.systems[0].ports[1]`. */
+export interface TypeMismatch {
+  path: string;
+  expected: string;
+  actual: string;
+}
+
+type Check = (value: unknown, path: string, mismatches: TypeMismatch[]) => void;
+
+const describeValue = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "an array" : typeof value;
+
 const isObject: Guarded<Record<string, unknown>> = (value): value is Record<string, unknown> =>
-  typeof value === "object" && value !== null;
-
-const isStringArray = (value: unknown): value is string[] =>
-  Array.isArray(value) && value.every((entry) => typeof entry === "string");
-
-const isDigitalTwin: Guarded<DigitalTwin> = (value): value is DigitalTwin =>
-  isObject(value) && typeof value.name === "string" && isStringArray(value.ports);
-
-const isOriginalTwin: Guarded<OriginalTwin> = (value): value is OriginalTwin =>
-  isObject(value) && typeof value.name === "string" && isStringArray(value.ports);
-
-const isConnection: Guarded<Connection> = (value): value is Connection =>
-  isObject(value) && typeof value.from === "string" && typeof value.to === "string" &&
-  (typeof value.name === "undefined" || typeof value.name === "string");
-
-const isGoal: Guarded<Goal> = (value): value is Goal =>
-  isObject(value) && typeof value.name === "string" &&
-  (typeof value.doc === "undefined" || typeof value.doc === "string");
-
-const isAllocation: Guarded<Allocation> = (value): value is Allocation =>
-  isObject(value) && typeof value.goal === "string" && typeof value.target === "string";
-
-const isTwinSystem: Guarded<TwinSystem> = (value): value is TwinSystem =>
-  isObject(value) &&
-  typeof value.name === "string" &&
-  Array.isArray(value.digital_twins) && value.digital_twins.every(isDigitalTwin) &&
-  Array.isArray(value.original_twins) && value.original_twins.every(isOriginalTwin) &&
-  Array.isArray(value.connections) && value.connections.every(isConnection);
-
-const isPartialSlice: Guarded<PartialDarTwinSlice> = (value): value is PartialDarTwinSlice =>
-  isObject(value) &&
-  (typeof value.systems === "undefined" ||
-    (Array.isArray(value.systems) && value.systems.every(isTwinSystem))) &&
-  (typeof value.goals === "undefined" || (Array.isArray(value.goals) && value.goals.every(isGoal))) &&
-  (typeof value.allocations === "undefined" ||
-    (Array.isArray(value.allocations) && value.allocations.every(isAllocation)));
-
-const isDarTransGuard: Guarded<DarTrans> = (value): value is DarTrans =>
-  isObject(value) &&
-  (typeof value.core === "undefined" || isPartialSlice(value.core)) &&
-  (typeof value.before === "undefined" || isPartialSlice(value.before)) &&
-  (typeof value.after === "undefined" || isPartialSlice(value.after));
-
-export const isDarTwinModel: Guarded<DarTwinModel> = (value): value is DarTwinModel =>
-  isObject(value) &&
-  value.type === "DarTwin" &&
-  typeof value.name === "string" &&
-  Array.isArray(value.systems) && value.systems.every(isTwinSystem) &&
-  Array.isArray(value.goals) && value.goals.every(isGoal) &&
-  Array.isArray(value.allocations) && value.allocations.every(isAllocation) &&
-  (typeof value.dartrans === "undefined" || isDarTransGuard(value.dartrans));
-
-export const isDarTrans: Guarded<DarTrans> = isDarTransGuard;
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const mismatch = (mismatches: TypeMismatch[], path: string, expected: string, value: unknown) =>
+  mismatches.push({ path, expected, actual: describeValue(value) });
+
+const string: Check = (value, path, mismatches) => {
+  if (typeof value !== "string") {
+    mismatch(mismatches, path, "a string", value);
+  }
+};
+
+const number: Check = (value, path, mismatches) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    mismatch(mismatches, path, "a number", value);
+  }
+};
+
+const literal =
+  (expected: string): Check =>
+  (value, path, mismatches) => {
+    if (value !== expected) {
+      mismatch(mismatches, path, `"${expected}"`, value);
+    }
+  };
+
+const oneOf =
+  (values: readonly string[]): Check =>
+  (value, path, mismatches) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      mismatch(mismatches, path, `one of ${values.map((entry) => `"${entry}"`).join(", ")}`, value);
+    }
+  };
+
+const optional =
+  (check: Check): Check =>
+  (value, path, mismatches) => {
+    if (typeof value !== "undefined") {
+      check(value, path, mismatches);
+    }
+  };
+
+const arrayOf =
+  (check: Check): Check =>
+  (value, path, mismatches) => {
+    if (!Array.isArray(value)) {
+      mismatch(mismatches, path, "an array", value);
+      return;
+    }
+    value.forEach((entry, index) => check(entry, `${path}[${index}]`, mismatches));
+  };
+
+const object =
+  (fields: Record<string, Check>): Check =>
+  (value, path, mismatches) => {
+    if (!isObject(value)) {
+      mismatch(mismatches, path, "an object", value);
+      return;
+    }
+    Object.entries(fields).forEach(([key, check]) => check(value[key], `${path}.${key}`, mismatches));
+  };
+
+const checkPort = object({
+  name: string,
+  direction: optional(oneOf(PORT_DIRECTIONS)),
+  kind: optional(oneOf(PORT_KINDS)),
+});
+
+const checkPortOwner = object({ name: string, ports: arrayOf(checkPort) });
+
+const checkPart: Check = (value, path, mismatches) =>
+  object({ name: string, ports: arrayOf(checkPort), parts: optional(arrayOf(checkPart)) })(
+    value,
+    path,
+    mismatches
+  );
+
+const checkConnection = object({ from: string, to: string, name: optional(string) });
+
+const checkCriterion = object({
+  metric: string,
+  unit: optional(string),
+  comparator: oneOf(COMPARATORS),
+  target: optional(number),
+  baseline: optional(number),
+});
+
+const checkGoal = object({
+  name: string,
+  doc: optional(string),
+  criteria: optional(arrayOf(checkCriterion)),
+  refines: optional(string),
+  conflicts_with: optional(arrayOf(string)),
+});
+
+const checkAllocation = object({ goal: string, target: string });
+
+const checkTwinSystem = object({
+  name: string,
+  digital_twins: arrayOf(checkPortOwner),
+  original_twins: arrayOf(checkPart),
+  connections: arrayOf(checkConnection),
+});
+
+const checkPartialSlice = object({
+  systems: optional(arrayOf(checkTwinSystem)),
+  connections: optional(arrayOf(checkConnection)),
+  goals: optional(arrayOf(checkGoal)),
+  allocations: optional(arrayOf(checkAllocation)),
+});
+
+const checkDarTrans = object({
+  core: optional(checkPartialSlice),
+  before: optional(checkPartialSlice),
+  after: optional(checkPartialSlice),
+});
+
+const checkDarTwinModel = object({
+  type: literal("DarTwin"),
+  name: string,
+  systems: arrayOf(checkTwinSystem),
+  connections: optional(arrayOf(checkConnection)),
+  goals: arrayOf(checkGoal),
+  allocations: arrayOf(checkAllocation),
+  dartrans: optional(checkDarTrans),
+});
+
+const mismatchesOf = (check: Check) => (value: unknown) => {
+  const mismatches: TypeMismatch[] = [];
+  check(value, "$", mismatches);
+  return mismatches;
+};
+
+const guard =
+  <T>(check: Check): Guarded<T> =>
+  (value): value is T =>
+    mismatchesOf(check)(value).length === 0;
+
+/** Every place where `value` is not a valid `DarTwinModel`; empty when it is one. */
+export const findDarTwinModelMismatches = mismatchesOf(checkDarTwinModel);
+
+export const findDarTransMismatches = mismatchesOf(checkDarTrans);
+
+export const isDarTwinModel: Guarded<DarTwinModel> = guard(checkDarTwinModel);
+
+export const isDarTrans: Guarded<DarTrans> = guard(checkDarTrans);
@@ -0,0 +1,18 @@
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/** 1-based line and column, matching what Monaco and most editors display. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  range: SourceRange;
+}
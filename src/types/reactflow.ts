@@ -1,3 +1,7 @@
+import type { DiffStatus } from "../dartrans/diffDarTwin";
+import type { GoalStatus } from "../evaluation/evaluateGoals";
+import type { GoalCriterion, PortDirection, PortKind } from "./dartwin";
+
 export type DarTwinNodeType = "dartwin" | "twinsystem" | "dt" | "at" | "port" | "goal";
 
 export interface DarTwinNode {
@@ -6,13 +10,36 @@ export interface DarTwinNode {
   label: string;
   parentId?: string;
   doc?: string;
+  /** Dotted DSL path of the element, e.g. `System.DT.port` or a goal name. */
+  ref?: string;
+  /** Declared direction and kind of a port node. */
+  direction?: PortDirection;
+  portKind?: PortKind;
+  /** Measurable criteria of a goal node. */
+  criteria?: GoalCriterion[];
+  /** Set on goal nodes once the goals are evaluated against measurements. */
+  evaluation?: GoalStatus;
+  /** Part of the `#core` slice of a DarTrans, i.e. kept by the transformation. */
+  core?: boolean;
+  /** Set when the graph is compared against another configuration. */
+  diff?: DiffStatus;
 }
 
+/**
+ * Which way data moves along an edge: from source to target, the reverse (a
+ * connection written from an `in` port to an `out` port) or both ways.
+ */
+export type EdgeFlow = "forward" | "backward" | "both";
+
 export interface DarTwinEdge {
   id: string;
   source: string;
   target: string;
   label?: string;
+  /** Forward when omitted. */
+  flow?: EdgeFlow;
+  core?: boolean;
+  diff?: DiffStatus;
 }
 
 export interface DarTwinGraph {
@@ -1,3 +1,5 @@
+import type { GoalCriterion } from "../types/dartwin";
+
 export const formatLabel = (label: string) => {
   if (!label) return "";
 
@@ -17,6 +19,18 @@ export const formatLabel = (label: string) => {
     .join(" ");
 };
 
+/**
+ * A goal criterion as the diagram shows it, e.g. "Water Consumption (l/day) <
+ * before"; a known baseline follows `before` in parentheses.
+ */
+export const formatCriterion = (criterion: GoalCriterion) => {
+  const unit = criterion.unit ? ` (${criterion.unit})` : "";
+  const reference =
+    criterion.target ??
+    (criterion.baseline !== undefined ? `before (${criterion.baseline})` : "before");
+  return `${formatLabel(criterion.metric)}${unit} ${criterion.comparator} ${reference}`;
+};
+
 export const formatPortLabel = (label: string) => {
   let pretty = formatLabel(label);
   pretty = pretty.replace(/Multi Sensor/i, "Multi-sensor");
@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDarTwinDocument } from "../../parser/parseDarTwin";
+import { issuesToDiagnostics, validateDarTwin } from "../validateDarTwin";
+
+const sample = `#dartwin StrawberryCultivationTrans {
+  #twinsystem Strawberry {
+    connect Strawberry.Cultivation.MultiSensor        to StrawberryDT.multisensor_input;
+    connect StrawberryDT.actuator_output_irrigation   to Strawberry.Cultivation.IrrigationActuator;
+    connect StrawberryDT.actuator_output_human        to Strawberry.Cultivation.HumanActuator;
+    connect StrawberryDT.actuator_output_ventilation  to Strawberry.Cultivation.VentilationActuator;
+
+    #digitaltwin StrawberryDT {
+      port multisensor_input;
+      port actuator_output_irrigation;
+      port actuator_output_human;
+      port actuator_output_ventilation;
+    }
+
+    part Cultivation {
+      port MultiSensor;
+      port IrrigationActuator;
+      port HumanActuator;
+      port VentilationActuator;
+    }
+  }
+
+  #goal increase_yield { doc /* yield y higher y than before */ }
+  #goal apply_decreased_water { doc /* water consumption w lower w than before */ }
+
+  allocate increase_yield to Strawberry.StrawberryDT;
+  allocate apply_decreased_water to Strawberry.StrawberryDT;
+}`;
+
+const broken = `#dartwin Broken {
+  #twinsystem Alpha {
+    #digitaltwin DT {
+      port out;
+      port out;
+      port spare;
+    }
+    part Machine { port input; }
+    connect DT.out to Machine.inptu;
+    connect DT.out to Alpha.DT.out;
+  }
+  #twinsystem Alpha { }
+  #goal g;
+  #goal lonely;
+  allocate g to Alpha.DT;
+  allocate h to Alpha.Machine.output;
+}`;
+
+describe("validateDarTwin", () => {
+  it("accepts the sample model", () => {
+    expect(validateDarTwin(parseDarTwinDocument(sample).model)).toEqual([]);
+  });
+
+  it("reports semantic problems", () => {
+    const issues = validateDarTwin(parseDarTwinDocument(broken).model);
+    expect(issues.map((issue) => [issue.code, issue.message])).toEqual([
+      ["duplicate-name", 'Duplicate twin system "Alpha".'],
+      ["duplicate-name", 'Duplicate port on DT "out".'],
+      ["dangling-endpoint", 'Unknown port "Machine.inptu" in twin system Alpha.'],
+      ["self-connection", 'Connection connects port "Alpha.DT.out" to itself.'],
+      ["unconnected-port", 'Port "Alpha.DT.spare" is never connected.'],
+      ["unconnected-port", 'Port "Alpha.Machine.input" is never connected.'],
+      ["unknown-goal", 'Allocation refers to unknown goal "h".'],
+      ["unknown-target", 'Part "Alpha.Machine" has no element "output" to allocate to.'],
+      ["unallocated-goal", 'Goal "lonely" is never allocated.'],
+    ]);
+  });
+
+  it("flags connections between two out ports", () => {
+    const { model } = parseDarTwinDocument(`#dartwin Flow {
+  #twinsystem Alpha {
+    #digitaltwin DT { out port command; in port reading; }
+    part Machine { out port valve; out port sensor; }
+    connect DT.command to Alpha.Machine.valve;
+    connect Alpha.Machine.sensor to DT.reading;
+  }
+}`);
+    expect(
+      validateDarTwin(model)
+        .filter((issue) => issue.code === "output-to-output")
+        .map((issue) => [issue.message, issue.element])
+    ).toEqual([
+      [
+        'Connection joins two out ports, "Alpha.DT.command" and "Alpha.Machine.valve".',
+        "connection:Alpha#0",
+      ],
+    ]);
+  });
+
+  it("requires distinct names only among sibling parts", () => {
+    const { model, sourceMap } = parseDarTwinDocument(`#dartwin Nested {
+  #twinsystem Farm {
+    part Bed { part Probe { port p; } }
+    part Shed {
+      part Probe { port p; port p; }
+      part Probe { }
+    }
+  }
+}`);
+    const issues = validateDarTwin(model).filter((issue) => issue.code === "duplicate-name");
+    expect(issues.map((issue) => [issue.message, issue.element, issue.occurrence])).toEqual([
+      ['Duplicate port on Shed.Probe "p".', "port:Farm.Shed.Probe.p", 1],
+      ['Duplicate element in part Shed "Probe".', "part:Farm.Shed.Probe", 1],
+    ]);
+    expect(issuesToDiagnostics(issues, sourceMap).map((d) => d.range.start)).toEqual([
+      { line: 5, column: 33 },
+      { line: 6, column: 12 },
+    ]);
+  });
+
+  it("checks connections between twin systems against full paths", () => {
+    const { model, sourceMap } = parseDarTwinDocument(`#dartwin Farm {
+  #twinsystem Scheduler { #digitaltwin PlanDT { out port plan; } }
+  #twinsystem Greenhouse { #digitaltwin ClimateDT { out port schedule; in port feed; } }
+  connect Scheduler.PlanDT.plan to Greenhouse.ClimateDT.schedule;
+  connect PlanDT.plan to Greenhouse.ClimateDT.feed;
+}`);
+    const issues = validateDarTwin(model);
+    expect(issues.map((issue) => [issue.code, issue.message, issue.element])).toEqual([
+      [
+        "output-to-output",
+        'Connection joins two out ports, "Scheduler.PlanDT.plan" and "Greenhouse.ClimateDT.schedule".',
+        "connection#0",
+      ],
+      [
+        "dangling-endpoint",
+        'Unknown port "PlanDT.plan"; refer to it as System.Owner.port.',
+        "connection#1.from",
+      ],
+    ]);
+    expect(issuesToDiagnostics(issues, sourceMap)[1]?.range.start).toEqual({ line: 5, column: 11 });
+  });
+
+  it("allocates goals to any named element and explains unknown targets", () => {
+    const { model } = parseDarTwinDocument(`#dartwin Farm {
+  #twinsystem Strawberry {
+    #digitaltwin StrawberryDT { port feed; }
+    part Cultivation { port sensor; }
+    connect StrawberryDT.feed to Cultivation.sensor;
+  }
+  #goal g;
+  allocate g to Strawberry;
+  allocate g to StrawberryDT;
+  allocate g to Strawberry.Cultivation;
+  allocate g to Strawberry.Cultivation.sensor;
+  allocate g to Cultivation;
+  allocate g to Strawberry.Greenhouse;
+  allocate g to Tomato;
+}`);
+    expect(validateDarTwin(model).map((issue) => [issue.message, issue.element])).toEqual([
+      [
+        'Allocation target "Cultivation" must name its twin system, e.g. "Strawberry.Cultivation".',
+        "allocation#4.target",
+      ],
+      [
+        'Twin system "Strawberry" has no element "Greenhouse" to allocate to.',
+        "allocation#5.target",
+      ],
+      [
+        'Allocation target "Tomato" is not a twin system, digital twin, part or port.',
+        "allocation#6.target",
+      ],
+    ]);
+  });
+
+  it("warns about allocations that repeat an earlier one", () => {
+    const { model } = parseDarTwinDocument(`#dartwin Farm {
+  #twinsystem Strawberry { #digitaltwin StrawberryDT { } }
+  #goal g;
+  allocate g to Strawberry.StrawberryDT;
+  allocate g to StrawberryDT;
+  allocate g to Strawberry;
+}`);
+    expect(
+      validateDarTwin(model).map((issue) => [issue.code, issue.message, issue.element])
+    ).toEqual([
+      [
+        "duplicate-allocation",
+        'Goal "g" is already allocated to "Strawberry.StrawberryDT".',
+        "allocation#1",
+      ],
+    ]);
+  });
+
+  it("checks goal relations and counts subgoal allocations for their parents", () => {
+    const { model, sourceMap } = parseDarTwinDocument(`#dartwin Farm {
+  #twinsystem Greenhouse { #digitaltwin IrrigationDT { } }
+  #goal increase_yield;
+  #goal optimize_irrigation refines increase_yield conflicts with optimize_irrigation;
+  #goal loop_a refines loop_b;
+  #goal loop_b refines loop_a conflicts with missing;
+  #goal orphan refines unknown;
+  allocate optimize_irrigation to Greenhouse.IrrigationDT;
+  allocate loop_a to Greenhouse;
+  allocate orphan to Greenhouse;
+}`);
+    const issues = validateDarTwin(model);
+    expect(issues.map((issue) => [issue.code, issue.message, issue.element])).toEqual([
+      [
+        "self-conflict",
+        'Goal "optimize_irrigation" conflicts with itself.',
+        "goal:optimize_irrigation.conflicts#0",
+      ],
+      [
+        "refinement-cycle",
+        'Goal "loop_a" refines itself: loop_a -> loop_b -> loop_a.',
+        "goal:loop_a.refines",
+      ],
+      [
+        "unknown-goal",
+        'Goal "loop_b" conflicts with unknown goal "missing".',
+        "goal:loop_b.conflicts#0",
+      ],
+      ["unknown-goal", 'Goal "orphan" refines unknown goal "unknown".', "goal:orphan.refines"],
+    ]);
+    expect(issuesToDiagnostics(issues, sourceMap)[3]?.range.start).toEqual({
+      line: 7,
+      column: 24,
+    });
+  });
+
+  it("places issues on the declaring source text", () => {
+    const { model, sourceMap } = parseDarTwinDocument(broken);
+    const diagnostics = issuesToDiagnostics(validateDarTwin(model), sourceMap);
+    const at = (message: string) =>
+      diagnostics.find((diagnostic) => diagnostic.message === message)?.range;
+
+    expect(at('Duplicate twin system "Alpha".')).toEqual({
+      start: { line: 12, column: 15 },
+      end: { line: 12, column: 20 },
+    });
+    expect(at('Duplicate port on DT "out".')?.start).toEqual({ line: 5, column: 12 });
+    expect(at('Unknown port "Machine.inptu" in twin system Alpha.')).toEqual({
+      start: { line: 9, column: 23 },
+      end: { line: 9, column: 36 },
+    });
+    expect(at('Allocation refers to unknown goal "h".')?.start).toEqual({ line: 16, column: 12 });
+  });
+});
@@ -0,0 +1,351 @@
+import {
+  createReferenceIndex,
+  flattenParts,
+  type ElementKind,
+  type PortReference,
+  type ReferenceIndex,
+} from "../model/references";
+import { locate, sourceKeys, type ConnectionEnd, type SourceMap } from "../parser/sourceMap";
+import type { Connection, DarTwinModel } from "../types/dartwin";
+import type { Diagnostic, DiagnosticSeverity, SourceRange } from "../types/diagnostics";
+
+export type ValidationCode =
+  | "duplicate-name"
+  | "dangling-endpoint"
+  | "self-connection"
+  | "output-to-output"
+  | "unknown-goal"
+  | "refinement-cycle"
+  | "self-conflict"
+  | "unknown-target"
+  | "duplicate-allocation"
+  | "unallocated-goal"
+  | "unconnected-port";
+
+export interface ValidationIssue {
+  severity: DiagnosticSeverity;
+  code: ValidationCode;
+  message: string;
+  /** `sourceKeys` entry of the element the issue is about. */
+  element: string;
+  /** Which declaration of `element` is meant when it is declared several times. */
+  occurrence?: number;
+}
+
+const findDuplicates = (names: string[]) => {
+  const seen = new Map<string, number>();
+  const duplicates: Array<{ name: string; occurrence: number }> = [];
+  names.forEach((name) => {
+    const count = seen.get(name) ?? 0;
+    if (count > 0) {
+      duplicates.push({ name, occurrence: count });
+    }
+    seen.set(name, count + 1);
+  });
+  return duplicates;
+};
+
+const checkDuplicates = (model: DarTwinModel, issues: ValidationIssue[]) => {
+  const duplicate = (label: string, name: string, element: string, occurrence: number) =>
+    issues.push({
+      severity: "error",
+      code: "duplicate-name",
+      message: `Duplicate ${label} "${name}".`,
+      element,
+      occurrence,
+    });
+
+  findDuplicates(model.systems.map((system) => system.name)).forEach(({ name, occurrence }) =>
+    duplicate("twin system", name, sourceKeys.system(name), occurrence)
+  );
+
+  model.systems.forEach((system) => {
+    const owners = [
+      ...system.digital_twins.map((dt) => ({ ...dt, path: dt.name, key: sourceKeys.digitalTwin })),
+      ...flattenParts(system.original_twins).map(({ part, path }) => ({
+        ...part,
+        path,
+        key: sourceKeys.part,
+      })),
+    ];
+    // Digital twins and parts share one namespace because ports are addressed as `Owner.port`;
+    // nested parts are addressed by their path, so only siblings need distinct names.
+    const pathCounts = new Map<string, number>();
+    const keyCounts = new Map<string, number>();
+    owners.forEach((owner) => {
+      const key = owner.key(system.name, owner.path);
+      const occurrence = keyCounts.get(key) ?? 0;
+      keyCounts.set(key, occurrence + 1);
+      const seen = pathCounts.get(owner.path) ?? 0;
+      pathCounts.set(owner.path, seen + 1);
+      if (seen > 0) {
+        const parent = owner.path.slice(0, -owner.name.length - 1);
+        const scope = parent ? `part ${parent}` : `twin system ${system.name}`;
+        duplicate(`element in ${scope}`, owner.name, key, occurrence);
+      }
+      findDuplicates(owner.ports.map((port) => port.name)).forEach(({ name, occurrence }) =>
+        duplicate(
+          `port on ${owner.path}`,
+          name,
+          sourceKeys.port(system.name, owner.path, name),
+          occurrence
+        )
+      );
+    });
+  });
+
+  findDuplicates(model.goals.map((goal) => goal.name)).forEach(({ name, occurrence }) =>
+    duplicate("goal", name, sourceKeys.goal(name), occurrence)
+  );
+};
+
+const checkConnections = (model: DarTwinModel, issues: ValidationIssue[]) => {
+  const index = createReferenceIndex(model);
+  const connected = new Set<string>();
+
+  const checkConnection = (
+    connection: Connection,
+    resolve: (reference: string) => PortReference | undefined,
+    unknown: (reference: string) => string,
+    element: string,
+    endElement: (end: ConnectionEnd) => string
+  ) => {
+    const from = resolve(connection.from);
+    const to = resolve(connection.to);
+
+    (["from", "to"] as const).forEach((end) => {
+      const resolved = end === "from" ? from : to;
+      if (resolved) {
+        connected.add(resolved.path);
+        return;
+      }
+      issues.push({
+        severity: "error",
+        code: "dangling-endpoint",
+        message: unknown(connection[end]),
+        element: endElement(end),
+      });
+    });
+
+    if (from && to && from.path === to.path) {
+      issues.push({
+        severity: "error",
+        code: "self-connection",
+        message: `Connection connects port "${from.path}" to itself.`,
+        element,
+      });
+    } else if (from?.direction === "out" && to?.direction === "out") {
+      issues.push({
+        severity: "error",
+        code: "output-to-output",
+        message: `Connection joins two out ports, "${from.path}" and "${to.path}".`,
+        element,
+      });
+    }
+  };
+
+  model.systems.forEach((system) => {
+    system.connections.forEach((connection, connectionIndex) =>
+      checkConnection(
+        connection,
+        (reference) => index.resolvePort(system.name, reference),
+        (reference) => `Unknown port "${reference}" in twin system ${system.name}.`,
+        sourceKeys.connection(system.name, connectionIndex),
+        (end) => sourceKeys.connectionEnd(system.name, connectionIndex, end)
+      )
+    );
+  });
+
+  (model.connections ?? []).forEach((connection, connectionIndex) =>
+    checkConnection(
+      connection,
+      index.resolveQualifiedPort,
+      (reference) => `Unknown port "${reference}"; refer to it as System.Owner.port.`,
+      sourceKeys.dartwinConnection(connectionIndex),
+      (end) => sourceKeys.dartwinConnectionEnd(connectionIndex, end)
+    )
+  );
+
+  index.ports
+    .filter((port) => !connected.has(port.path))
+    .forEach((port) =>
+      issues.push({
+        severity: "warning",
+        code: "unconnected-port",
+        message: `Port "${port.path}" is never connected.`,
+        element: sourceKeys.port(port.system, port.owner, port.port),
+      })
+    );
+};
+
+const ELEMENT_KINDS: Record<ElementKind, string> = {
+  system: "Twin system",
+  dt: "Digital twin",
+  part: "Part",
+  port: "Port",
+};
+
+/**
+ * Explains an allocation target that does not resolve: an unqualified part or
+ * port gets its qualified path suggested, and a path that runs past a known
+ * element names that element.
+ */
+const unknownTargetMessage = (target: string, index: ReferenceIndex) => {
+  const trimmed = target.trim();
+  const qualified = index.elements.filter((element) => element.path.endsWith(`.${trimmed}`));
+  if (qualified.length > 0) {
+    const paths = qualified.map((element) => `"${element.path}"`).join(" or ");
+    return `Allocation target "${trimmed}" must name its twin system, e.g. ${paths}.`;
+  }
+  const segments = trimmed.split(".");
+  for (let length = segments.length - 1; length > 0; length -= 1) {
+    const owner = index.resolveElement(segments.slice(0, length).join("."));
+    if (owner) {
+      const rest = segments.slice(length).join(".");
+      return `${ELEMENT_KINDS[owner.kind]} "${owner.path}" has no element "${rest}" to allocate to.`;
+    }
+  }
+  return `Allocation target "${trimmed}" is not a twin system, digital twin, part or port.`;
+};
+
+const checkAllocations = (model: DarTwinModel, issues: ValidationIssue[]) => {
+  const index = createReferenceIndex(model);
+  const goals = new Set(model.goals.map((goal) => goal.name));
+  const allocated = new Set<string>();
+  const seen = new Set<string>();
+
+  model.allocations.forEach((allocation, allocationIndex) => {
+    if (goals.has(allocation.goal)) {
+      allocated.add(allocation.goal);
+    } else {
+      issues.push({
+        severity: "error",
+        code: "unknown-goal",
+        message: `Allocation refers to unknown goal "${allocation.goal}".`,
+        element: sourceKeys.allocationGoal(allocationIndex),
+      });
+    }
+    const target = index.resolveElement(allocation.target);
+    if (!target) {
+      issues.push({
+        severity: "error",
+        code: "unknown-target",
+        message: unknownTargetMessage(allocation.target, index),
+        element: sourceKeys.allocationTarget(allocationIndex),
+      });
+      return;
+    }
+    const key = `${allocation.goal}->${target.path}`;
+    if (seen.has(key)) {
+      issues.push({
+        severity: "warning",
+        code: "duplicate-allocation",
+        message: `Goal "${allocation.goal}" is already allocated to "${target.path}".`,
+        element: sourceKeys.allocation(allocationIndex),
+      });
+    }
+    seen.add(key);
+  });
+
+  // A goal is also covered through the subgoals that refine it.
+  const parentOf = new Map(model.goals.map((goal) => [goal.name, goal.refines]));
+  [...allocated].forEach((goal) => {
+    let parent = parentOf.get(goal);
+    while (parent !== undefined && !allocated.has(parent)) {
+      allocated.add(parent);
+      parent = parentOf.get(parent);
+    }
+  });
+
+  model.goals
+    .filter((goal) => !allocated.has(goal.name))
+    .forEach((goal) =>
+      issues.push({
+        severity: "warning",
+        code: "unallocated-goal",
+        message: `Goal "${goal.name}" is never allocated.`,
+        element: sourceKeys.goal(goal.name),
+      })
+    );
+};
+
+const checkGoalRelations = (model: DarTwinModel, issues: ValidationIssue[]) => {
+  const parentOf = new Map(model.goals.map((goal) => [goal.name, goal.refines]));
+  const inCycle = new Set<string>();
+
+  model.goals.forEach((goal) => {
+    if (goal.refines !== undefined && !parentOf.has(goal.refines)) {
+      issues.push({
+        severity: "error",
+        code: "unknown-goal",
+        message: `Goal "${goal.name}" refines unknown goal "${goal.refines}".`,
+        element: sourceKeys.goalRefines(goal.name),
+      });
+    }
+
+    // Follow the refinements upwards; coming back to this goal closes a cycle.
+    const chain = [goal.name];
+    let parent = goal.refines;
+    while (parent !== undefined && parentOf.has(parent) && !chain.includes(parent)) {
+      chain.push(parent);
+      parent = parentOf.get(parent);
+    }
+    if (parent === goal.name && !inCycle.has(goal.name)) {
+      chain.forEach((name) => inCycle.add(name));
+      issues.push({
+        severity: "error",
+        code: "refinement-cycle",
+        message: `Goal "${goal.name}" refines itself: ${[...chain, goal.name].join(" -> ")}.`,
+        element: sourceKeys.goalRefines(goal.name),
+      });
+    }
+
+    (goal.conflicts_with ?? []).forEach((other, conflictIndex) => {
+      const element = sourceKeys.goalConflict(goal.name, conflictIndex);
+      if (other === goal.name) {
+        issues.push({
+          severity: "error",
+          code: "self-conflict",
+          message: `Goal "${goal.name}" conflicts with itself.`,
+          element,
+        });
+      } else if (!parentOf.has(other)) {
+        issues.push({
+          severity: "error",
+          code: "unknown-goal",
+          message: `Goal "${goal.name}" conflicts with unknown goal "${other}".`,
+          element,
+        });
+      }
+    });
+  });
+};
+
+/**
+ * Semantic checks over a parsed model. Unlike parser diagnostics these do not
+ * need the source text, so they also apply to models imported from elsewhere.
+ */
+export function validateDarTwin(model: DarTwinModel): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkDuplicates(model, issues);
+  checkConnections(model, issues);
+  checkGoalRelations(model, issues);
+  checkAllocations(model, issues);
+  return issues;
+}
+
+const DOCUMENT_START: SourceRange = {
+  start: { line: 1, column: 1 },
+  end: { line: 1, column: 1 },
+};
+
+/** Places validation issues in the source text using the parser's source map. */
+export const issuesToDiagnostics = (
+  issues: ValidationIssue[],
+  sourceMap: SourceMap
+): Diagnostic[] =>
+  issues.map((issue) => ({
+    severity: issue.severity,
+    message: issue.message,
+    range: locate(sourceMap, issue.element, issue.occurrence) ?? DOCUMENT_START,
+  }));
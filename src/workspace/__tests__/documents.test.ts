@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  createDocument,
+  duplicateDocument,
+  neighbourOf,
+  renameError,
+  sortDocuments,
+  uniqueName,
+  type WorkspaceDocument,
+} from "../documents";
+
+const document = (id: string, name: string, updatedAt = 0): WorkspaceDocument => ({
+  id,
+  name,
+  text: `#dartwin ${id} { }`,
+  updatedAt,
+});
+
+const documents = [
+  document("b", "Greenhouse 10"),
+  document("a", "greenhouse"),
+  document("c", "Greenhouse 2"),
+];
+
+describe("workspace documents", () => {
+  it("numbers names that are already taken, ignoring case", () => {
+    expect(uniqueName("Greenhouse", documents)).toBe("Greenhouse 3");
+    expect(uniqueName("Orchard", documents)).toBe("Orchard");
+    const created = createDocument(documents, "#dartwin Greenhouse { }", "GREENHOUSE", 42);
+    expect(created).toMatchObject({ name: "GREENHOUSE 3", updatedAt: 42 });
+    expect(documents.map(({ id }) => id)).not.toContain(created.id);
+  });
+
+  it("creates ids without crypto.randomUUID outside secure contexts", () => {
+    vi.stubGlobal("crypto", {});
+    try {
+      const first = createDocument([], "");
+      const second = createDocument([first], "");
+      expect(first.id).toMatch(/^[a-z0-9]+-[a-z0-9]+$/);
+      expect(second.id).not.toBe(first.id);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("duplicates a document's text under a copy name", () => {
+    const copy = duplicateDocument(documents, documents[1]!, 7);
+    expect(copy).toMatchObject({ name: "greenhouse copy", text: "#dartwin a { }", updatedAt: 7 });
+    expect(copy.id).not.toBe("a");
+  });
+
+  it("refuses empty and duplicate names", () => {
+    expect(renameError(documents, "a", "  ")).toBe("A document needs a name.");
+    expect(renameError(documents, "a", " GREENHOUSE 2 ")).toBe(
+      'A document named "GREENHOUSE 2" already exists.'
+    );
+    expect(renameError(documents, "a", "Greenhouse")).toBeUndefined();
+  });
+
+  it("sorts by name with numbers in order and opens a neighbour after a delete", () => {
+    expect(sortDocuments(documents).map(({ name }) => name)).toEqual([
+      "greenhouse",
+      "Greenhouse 2",
+      "Greenhouse 10",
+    ]);
+    expect(neighbourOf(documents, "c")).toBe("b");
+    expect(neighbourOf(documents, "b")).toBe("c");
+    expect(neighbourOf([documents[0]!], "b")).toBeUndefined();
+  });
+});
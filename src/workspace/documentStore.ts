@@ -0,0 +1,88 @@
+import type { WorkspaceDocument, WorkspaceSession } from "./documents";
+
+/** Persistence of the workspace; every method resolves once the change is stored. */
+export interface DocumentStore {
+  listDocuments: () => Promise<WorkspaceDocument[]>;
+  putDocument: (document: WorkspaceDocument) => Promise<void>;
+  deleteDocument: (id: string) => Promise<void>;
+  loadSession: () => Promise<WorkspaceSession | undefined>;
+  saveSession: (session: WorkspaceSession) => Promise<void>;
+}
+
+const DATABASE_NAME = "dartwin-workspace";
+const DATABASE_VERSION = 1;
+const DOCUMENTS = "documents";
+const SESSION = "session";
+const SESSION_KEY = "current";
+
+const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (factory: IDBFactory) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(DOCUMENTS)) {
+        database.createObjectStore(DOCUMENTS, { keyPath: "id" });
+      }
+      if (!database.objectStoreNames.contains(SESSION)) {
+        database.createObjectStore(SESSION);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("The workspace database is open in another tab."));
+  });
+
+/**
+ * Opens the workspace database of this browser. Rejects when IndexedDB is not
+ * available, e.g. in some private browsing modes.
+ */
+export const openIndexedDbStore = async (
+  factory: IDBFactory | undefined = globalThis.indexedDB
+): Promise<DocumentStore> => {
+  if (!factory) {
+    throw new Error("This browser does not provide IndexedDB.");
+  }
+  const database = await openDatabase(factory);
+  const store = (name: string, mode: IDBTransactionMode) =>
+    database.transaction(name, mode).objectStore(name);
+
+  return {
+    listDocuments: () => settle<WorkspaceDocument[]>(store(DOCUMENTS, "readonly").getAll()),
+    putDocument: async (document) => {
+      await settle(store(DOCUMENTS, "readwrite").put(document));
+    },
+    deleteDocument: async (id) => {
+      await settle(store(DOCUMENTS, "readwrite").delete(id));
+    },
+    loadSession: () =>
+      settle<WorkspaceSession | undefined>(store(SESSION, "readonly").get(SESSION_KEY)),
+    saveSession: async (session) => {
+      await settle(store(SESSION, "readwrite").put(session, SESSION_KEY));
+    },
+  };
+};
+
+/** Keeps the workspace for this page only; used when IndexedDB cannot be opened. */
+export const createMemoryStore = (): DocumentStore => {
+  const documents = new Map<string, WorkspaceDocument>();
+  let session: WorkspaceSession | undefined;
+  return {
+    listDocuments: async () => [...documents.values()],
+    putDocument: async (document) => {
+      documents.set(document.id, document);
+    },
+    deleteDocument: async (id) => {
+      documents.delete(id);
+    },
+    loadSession: async () => session,
+    saveSession: async (next) => {
+      session = next;
+    },
+  };
+};
@@ -0,0 +1,83 @@
+export interface WorkspaceDocument {
+  id: string;
+  /** Shown in the workspace sidebar; independent of the `#dartwin` name in the text. */
+  name: string;
+  text: string;
+  /** Milliseconds since the epoch of the last edit. */
+  updatedAt: number;
+}
+
+/** What a reload restores: the document that was open and how it was viewed. */
+export interface WorkspaceSession {
+  activeId?: string;
+  viewMode?: string;
+}
+
+export const DEFAULT_DOCUMENT_NAME = "Untitled";
+
+export const emptyDocumentText = () => "#dartwin Untitled {\n}\n";
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** `base`, or `base 2`, `base 3`, ... when another document already has that name. */
+export const uniqueName = (base: string, documents: WorkspaceDocument[]) => {
+  const taken = (name: string) => documents.some((document) => sameName(document.name, name));
+  let name = base;
+  for (let counter = 2; taken(name); counter++) {
+    name = `${base} ${counter}`;
+  }
+  return name;
+};
+
+/**
+ * `crypto.randomUUID` exists only in secure contexts, which a dev server opened
+ * over plain http on a LAN address is not.
+ */
+const createId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createDocument = (
+  documents: WorkspaceDocument[],
+  text: string,
+  name = DEFAULT_DOCUMENT_NAME,
+  now = Date.now()
+): WorkspaceDocument => ({
+  id: createId(),
+  name: uniqueName(name, documents),
+  text,
+  updatedAt: now,
+});
+
+export const duplicateDocument = (
+  documents: WorkspaceDocument[],
+  original: WorkspaceDocument,
+  now = Date.now()
+) => createDocument(documents, original.text, `${original.name} copy`, now);
+
+/** Why `name` cannot be given to document `id`, or undefined when it can. */
+export const renameError = (documents: WorkspaceDocument[], id: string, name: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return "A document needs a name.";
+  }
+  if (documents.some((document) => document.id !== id && sameName(document.name, trimmed))) {
+    return `A document named "${trimmed}" already exists.`;
+  }
+  return undefined;
+};
+
+/** Documents in the order the sidebar lists them. */
+export const sortDocuments = (documents: WorkspaceDocument[]) =>
+  [...documents].sort(
+    (a, b) =>
+      a.name.localeCompare(b.name, undefined, { numeric: true }) || a.updatedAt - b.updatedAt
+  );
+
+/** The document to open once `id` is deleted: the next one in the list, else the previous. */
+export const neighbourOf = (documents: WorkspaceDocument[], id: string) => {
+  const sorted = sortDocuments(documents);
+  const index = sorted.findIndex((document) => document.id === id);
+  return (sorted[index + 1] ?? sorted[index - 1])?.id;
+};
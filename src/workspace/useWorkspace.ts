@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  createDocument,
+  duplicateDocument,
+  neighbourOf,
+  renameError,
+  sortDocuments,
+  type WorkspaceDocument,
+} from "./documents";
+import { createMemoryStore, openIndexedDbStore, type DocumentStore } from "./documentStore";
+
+/** Edits are written once typing pauses for this long. */
+const AUTOSAVE_DELAY = 500;
+
+/**
+ * The seed document has a fixed id, so that opening the workspace twice (as
+ * React's strict mode does) still stores it only once.
+ */
+const SEED_DOCUMENT_ID = "seed";
+
+export interface WorkspaceSeed {
+  name: string;
+  text: string;
+}
+
+interface LoadedWorkspace {
+  store: DocumentStore;
+  documents: WorkspaceDocument[];
+  activeId: string;
+  viewMode?: string;
+}
+
+const loadWorkspace = async (
+  store: DocumentStore,
+  seed: WorkspaceSeed
+): Promise<LoadedWorkspace> => {
+  let documents = await store.listDocuments();
+  if (documents.length === 0) {
+    const first = { ...createDocument([], seed.text, seed.name), id: SEED_DOCUMENT_ID };
+    await store.putDocument(first);
+    documents = [first];
+  }
+  const session = await store.loadSession();
+  const restored = documents.find((document) => document.id === session?.activeId);
+  return {
+    store,
+    documents,
+    activeId: restored?.id ?? sortDocuments(documents)[0]!.id,
+    viewMode: session?.viewMode,
+  };
+};
+
+/**
+ * The named documents of the browser's workspace, kept in IndexedDB. The first
+ * visit starts with `seed`; later visits reopen the document and view mode
+ * that were last used. Without IndexedDB the workspace lasts for the page only,
+ * and `storageError` says why.
+ */
+export function useWorkspace(seed: WorkspaceSeed) {
+  const [workspace, setWorkspace] = useState<LoadedWorkspace | undefined>();
+  const [storageError, setStorageError] = useState<string | undefined>();
+  const pending = useRef(new Map<string, WorkspaceDocument>());
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  const seedRef = useRef(seed);
+  const latest = useRef(workspace);
+  latest.current = workspace;
+
+  useEffect(() => {
+    let cancelled = false;
+    const open = async () => {
+      try {
+        return await loadWorkspace(await openIndexedDbStore(), seedRef.current);
+      } catch (error) {
+        if (!cancelled) {
+          setStorageError(
+            `Documents are kept only until this page closes: ${(error as Error).message}`
+          );
+        }
+        return loadWorkspace(createMemoryStore(), seedRef.current);
+      }
+    };
+    open()
+      .then((loaded) => {
+        if (!cancelled) {
+          setWorkspace(loaded);
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setStorageError(`Could not open the workspace: ${error.message}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const store = workspace?.store;
+
+  const write = useCallback(
+    (operation: Promise<void>) =>
+      operation.catch((error: Error) =>
+        setStorageError(`Could not save the workspace: ${error.message}`)
+      ),
+    []
+  );
+
+  const flush = useCallback(() => {
+    clearTimeout(timer.current);
+    if (!store) {
+      return;
+    }
+    pending.current.forEach((document) => write(store.putDocument(document)));
+    pending.current.clear();
+  }, [store, write]);
+
+  // Leaving the page or switching away from it must not lose the last edits.
+  useEffect(() => {
+    const onHide = () => flush();
+    window.addEventListener("pagehide", onHide);
+    document.addEventListener("visibilitychange", onHide);
+    return () => {
+      window.removeEventListener("pagehide", onHide);
+      document.removeEventListener("visibilitychange", onHide);
+      flush();
+    };
+  }, [flush]);
+
+  const activeId = workspace?.activeId;
+  const viewMode = workspace?.viewMode;
+  useEffect(() => {
+    if (store && activeId) {
+      write(store.saveSession({ activeId, viewMode }));
+    }
+  }, [store, activeId, viewMode, write]);
+
+  const update = (change: (current: LoadedWorkspace) => LoadedWorkspace) =>
+    setWorkspace((current) => current && change(current));
+
+  const setText = useCallback(
+    (text: string) => {
+      const current = latest.current;
+      const active = current?.documents.find((document) => document.id === current.activeId);
+      if (!active) {
+        return;
+      }
+      const edited = { ...(pending.current.get(active.id) ?? active), text, updatedAt: Date.now() };
+      pending.current.set(edited.id, edited);
+      clearTimeout(timer.current);
+      timer.current = setTimeout(flush, AUTOSAVE_DELAY);
+      update((loaded) => ({
+        ...loaded,
+        documents: loaded.documents.map((document) =>
+          document.id === edited.id ? edited : document
+        ),
+      }));
+    },
+    [flush]
+  );
+
+  const add = (document: WorkspaceDocument) => {
+    if (store) {
+      write(store.putDocument(document));
+    }
+    update((current) => ({
+      ...current,
+      documents: [...current.documents, document],
+      activeId: document.id,
+    }));
+  };
+
+  const create = (text: string) => {
+    if (workspace) {
+      add(createDocument(workspace.documents, text));
+    }
+  };
+
+  const duplicate = (id: string) => {
+    const original = workspace?.documents.find((document) => document.id === id);
+    if (workspace && original) {
+      add(duplicateDocument(workspace.documents, pending.current.get(id) ?? original));
+    }
+  };
+
+  /** Returns why the name was refused, or undefined once the document is renamed. */
+  const rename = (id: string, name: string) => {
+    const document = workspace?.documents.find((candidate) => candidate.id === id);
+    if (!workspace || !store || !document) {
+      return undefined;
+    }
+    const error = renameError(workspace.documents, id, name);
+    if (error) {
+      return error;
+    }
+    const renamed = { ...(pending.current.get(id) ?? document), name: name.trim() };
+    pending.current.delete(id);
+    write(store.putDocument(renamed));
+    update((current) => ({
+      ...current,
+      documents: current.documents.map((candidate) => (candidate.id === id ? renamed : candidate)),
+    }));
+    return undefined;
+  };
+
+  /** The last document cannot be deleted; a workspace always has one open. */
+  const remove = (id: string) => {
+    if (!workspace || !store || workspace.documents.length < 2) {
+      return;
+    }
+    const next = neighbourOf(workspace.documents, id);
+    pending.current.delete(id);
+    write(store.deleteDocument(id));
+    update((current) => ({
+      ...current,
+      documents: current.documents.filter((document) => document.id !== id),
+      activeId: current.activeId === id && next ? next : current.activeId,
+    }));
+  };
+
+  const select = (id: string) => update((current) => ({ ...current, activeId: id }));
+
+  const setViewMode = useCallback(
+    (mode: string) => update((current) => ({ ...current, viewMode: mode })),
+    []
+  );
+
+  return {
+    ready: workspace !== undefined,
+    documents: workspace ? sortDocuments(workspace.documents) : [],
+    activeDocument: workspace?.documents.find((document) => document.id === activeId),
+    viewMode,
+    storageError,
+    setText,
+    setViewMode,
+    create,
+    duplicate,
+    rename,
+    remove,
+    select,
+  };
+}